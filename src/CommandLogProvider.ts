@@ -0,0 +1,193 @@
+import * as vscode from "vscode";
+import { CommandLog, P4CommandLogEntry } from "./p4/commandLog";
+
+export const COMMAND_LOG_VIEW_ID = "perforce.commandLog";
+
+// Lines of output shown under an expanded row; the full text opens in an editor
+const MAX_OUTPUT_LINES = 200;
+
+type CommandLogNode =
+  | { kind: "entry"; entry: P4CommandLogEntry }
+  | { kind: "detail"; label: string; value: string }
+  | {
+      kind: "output";
+      entry: P4CommandLogEntry;
+      stream: "stdout" | "stderr";
+    }
+  | { kind: "line"; text: string; entry: P4CommandLogEntry };
+
+/**
+ * Builds the command line of a logged entry, as it could be typed in a terminal.
+ * Arguments are already redacted by the command log.
+ */
+export function formatCommandLine(entry: P4CommandLogEntry): string {
+  const quote = (arg: string) =>
+    /[\s"]/.test(arg) ? JSON.stringify(arg) : arg;
+  const global = entry.useTaggedOutput ? ["-G"] : [];
+  return ["p4", ...global, entry.command, ...entry.args].map(quote).join(" ");
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeStatus(entry: P4CommandLogEntry): string {
+  if (entry.exitCode === undefined) {
+    return entry.error ?? "not run";
+  }
+  return entry.error
+    ? `failed (exit ${entry.exitCode})`
+    : `exit ${entry.exitCode}`;
+}
+
+/**
+ * Tree of recent p4 commands, fed by PerforceService's command log.
+ * Each row expands to its details and output.
+ */
+export class CommandLogProvider
+  implements vscode.TreeDataProvider<CommandLogNode>, vscode.Disposable
+{
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<
+    CommandLogNode | undefined
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly log: CommandLog) {
+    this.subscription = log.onDidChange(() =>
+      this._onDidChangeTreeData.fire(undefined),
+    );
+  }
+
+  public getChildren(node?: CommandLogNode): CommandLogNode[] {
+    if (!node) {
+      return this.log.entries.map((entry) => ({ kind: "entry", entry }));
+    }
+    if (node.kind === "entry") {
+      const { entry } = node;
+      const details: CommandLogNode[] = [
+        { kind: "detail", label: "Directory", value: entry.cwd ?? "(default)" },
+        {
+          kind: "detail",
+          label: "Started",
+          value: entry.startTime.toLocaleTimeString(),
+        },
+        { kind: "detail", label: "Duration", value: `${entry.durationMs} ms` },
+        { kind: "detail", label: "Status", value: describeStatus(entry) },
+      ];
+      if (entry.hadInput) {
+        details.push({ kind: "detail", label: "Input", value: "(not kept)" });
+      }
+      details.push({ kind: "output", entry, stream: "stdout" });
+      details.push({ kind: "output", entry, stream: "stderr" });
+      return details;
+    }
+    if (node.kind === "output") {
+      const lines = node.entry[node.stream].split(/\r?\n/);
+      const shown: CommandLogNode[] = lines
+        .slice(0, MAX_OUTPUT_LINES)
+        .map((text) => ({ kind: "line", text, entry: node.entry }));
+      if (lines.length > MAX_OUTPUT_LINES) {
+        shown.push({
+          kind: "line",
+          text: `... ${lines.length - MAX_OUTPUT_LINES} more lines (click to open)`,
+          entry: node.entry,
+        });
+      }
+      return shown;
+    }
+    return [];
+  }
+
+  public getTreeItem(node: CommandLogNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "entry":
+        return this.getEntryItem(node.entry);
+      case "detail": {
+        const item = new vscode.TreeItem(node.label);
+        item.description = node.value;
+        item.tooltip = node.value;
+        return item;
+      }
+      case "output": {
+        const text = node.entry[node.stream];
+        const bytes =
+          node.stream === "stdout"
+            ? node.entry.stdoutBytes
+            : node.entry.stderrBytes;
+        const item = new vscode.TreeItem(
+          node.stream,
+          text
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None,
+        );
+        item.description = text ? formatBytes(bytes) : "(empty)";
+        item.contextValue = "p4CommandLogOutput";
+        return item;
+      }
+      case "line": {
+        const item = new vscode.TreeItem(node.text);
+        item.tooltip = node.text;
+        item.command = {
+          command: "perforce.commandLog.showOutput",
+          title: "Show Output",
+          arguments: [{ kind: "entry", entry: node.entry }],
+        };
+        return item;
+      }
+    }
+  }
+
+  private getEntryItem(entry: P4CommandLogEntry): vscode.TreeItem {
+    const commandLine = formatCommandLine(entry);
+    const item = new vscode.TreeItem(
+      commandLine,
+      vscode.TreeItemCollapsibleState.Collapsed,
+    );
+    item.id = `p4-command-${entry.id}`;
+    item.description = `${entry.durationMs} ms · ${describeStatus(entry)} · ${formatBytes(entry.stdoutBytes)} / ${formatBytes(entry.stderrBytes)}`;
+    item.iconPath = new vscode.ThemeIcon(
+      entry.exitCode === undefined
+        ? "circle-slash"
+        : entry.error
+          ? "error"
+          : "pass",
+    );
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `\`${commandLine}\``,
+        "",
+        `Directory: ${entry.cwd ?? "(default)"}`,
+        `Started: ${entry.startTime.toLocaleString()}`,
+        `Duration: ${entry.durationMs} ms`,
+        `Status: ${describeStatus(entry)}`,
+        `stdout: ${formatBytes(entry.stdoutBytes)}, stderr: ${formatBytes(entry.stderrBytes)}`,
+      ].join("  \n"),
+    );
+    // Commands that read stdin (login, spec -i) cannot be re-run from the log
+    item.contextValue = entry.rerun
+      ? "p4CommandLogEntry:rerunnable"
+      : "p4CommandLogEntry";
+    return item;
+  }
+
+  dispose() {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+/**
+ * Extracts the logged entry from a command argument passed by the view.
+ */
+export function entryFromNode(
+  node: CommandLogNode | undefined,
+): P4CommandLogEntry | undefined {
+  return node && "entry" in node ? node.entry : undefined;
+}
@@ -0,0 +1,120 @@
+import * as vscode from "vscode";
+import { PerforceService } from "./PerforceService";
+import { P4CommandContext } from "./p4/p4Types";
+import { getP4OptionsFromConfig } from "./p4/p4Utils";
+import { p4print } from "./p4/fileCommands";
+
+export const PERFORCE_SCHEME = "perforce";
+
+/** Revision specifier meaning "no revision"; served as an empty document. */
+export const EMPTY_REVISION = "#none";
+
+export interface DepotUriParts {
+  depotPath: string; // e.g. //depot/main/file.c
+  revSpec: string; // e.g. #have, #head, #3, @1234, @=1234 or "" for none
+  rootUri?: vscode.Uri; // Workspace root whose P4 settings should be used
+}
+
+/**
+ * Builds a read-only `perforce:` URI for a depot file revision.
+ * The depot name becomes the authority (`//depot/a/b.c` -> `perforce://depot/a/b.c`),
+ * so the URI stays valid and keeps the file extension for language detection.
+ * @param depotPath Depot path of the file (must start with //).
+ * @param revSpec Revision, changelist or shelf specifier appended to the path for `p4 print`.
+ * @param rootUri Workspace root used to resolve P4 connection settings.
+ */
+export function createDepotUri(
+  depotPath: string,
+  revSpec: string,
+  rootUri?: vscode.Uri,
+): vscode.Uri {
+  if (!depotPath.startsWith("//")) {
+    throw new Error(`Not a depot path: '${depotPath}'`);
+  }
+  const withoutPrefix = depotPath.substring(2);
+  const slashIndex = withoutPrefix.indexOf("/");
+  const authority =
+    slashIndex < 0 ? withoutPrefix : withoutPrefix.substring(0, slashIndex);
+  const path = slashIndex < 0 ? "/" : withoutPrefix.substring(slashIndex);
+
+  const query = new URLSearchParams();
+  query.set("rev", revSpec);
+  if (rootUri) {
+    query.set("root", rootUri.toString());
+  }
+
+  return vscode.Uri.from({
+    scheme: PERFORCE_SCHEME,
+    authority,
+    path,
+    query: query.toString(),
+  });
+}
+
+/**
+ * Reverses {@link createDepotUri}.
+ * @param uri A `perforce:` URI.
+ */
+export function parseDepotUri(uri: vscode.Uri): DepotUriParts {
+  if (uri.scheme !== PERFORCE_SCHEME) {
+    throw new Error(`Unexpected URI scheme '${uri.scheme}'`);
+  }
+  const query = new URLSearchParams(uri.query);
+  const root = query.get("root");
+  return {
+    depotPath: `//${uri.authority}${uri.path === "/" ? "" : uri.path}`,
+    revSpec: query.get("rev") ?? "",
+    rootUri: root ? vscode.Uri.parse(root) : undefined,
+  };
+}
+
+/**
+ * Serves the contents of depot file revisions via `p4 print` so that
+ * they can be opened and diffed like any other document.
+ */
+export class PerforceContentProvider
+  implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  private _perforceService: PerforceService;
+  private _outputChannel: vscode.OutputChannel;
+
+  constructor(
+    perforceService: PerforceService,
+    outputChannel: vscode.OutputChannel,
+  ) {
+    this._perforceService = perforceService;
+    this._outputChannel = outputChannel;
+  }
+
+  public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const { depotPath, revSpec, rootUri } = parseDepotUri(uri);
+
+    // Nothing to print for the "before" side of an add or the "after" side of a delete
+    if (revSpec === EMPTY_REVISION) {
+      return "";
+    }
+
+    const fileSpec = `${depotPath}${revSpec}`;
+    this._outputChannel.appendLine(
+      `Content Provider: Fetching depot content for ${fileSpec}`,
+    );
+    const p4Options = getP4OptionsFromConfig(rootUri);
+    const context: P4CommandContext = {
+      execute: this._perforceService.execute.bind(this._perforceService),
+      outputChannel: this._outputChannel,
+    };
+
+    try {
+      return await p4print(context, fileSpec, p4Options);
+    } catch (error: any) {
+      this._outputChannel.appendLine(
+        `Content Provider: Error fetching ${fileSpec}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  dispose(): void {
+    // Nothing to clean up; the service is owned by the extension
+  }
+}
@@ -0,0 +1,126 @@
+import * as vscode from "vscode";
+import {
+  describeOtherOpen,
+  P4File,
+  P4StateDelta,
+  RepositoryStateManager,
+} from "./RepositoryStateManager";
+
+// Badge letter and colour for each open action
+const ACTION_DECORATIONS: Record<string, { badge: string; color: string }> = {
+  add: { badge: "A", color: "perforceDecoration.addForeground" },
+  "move/add": { badge: "M", color: "perforceDecoration.moveAddForeground" },
+  branch: { badge: "B", color: "perforceDecoration.branchForeground" },
+  edit: { badge: "E", color: "perforceDecoration.editForeground" },
+  integrate: { badge: "I", color: "perforceDecoration.integrateForeground" },
+  import: { badge: "I", color: "perforceDecoration.importForeground" },
+  delete: { badge: "D", color: "perforceDecoration.deleteForeground" },
+  "move/delete": {
+    badge: "M",
+    color: "perforceDecoration.moveDeleteForeground",
+  },
+  archive: { badge: "D", color: "perforceDecoration.archiveForeground" },
+  purge: { badge: "D", color: "perforceDecoration.purgeForeground" },
+};
+
+// Second badge character; the first match wins, since a badge has room for only one
+const MARKS: { applies: (file: P4File) => boolean; mark: string }[] = [
+  { applies: (file) => !!file.otherLock, mark: "!" }, // Locked by someone else
+  { applies: (file) => !!file.ourLock, mark: "L" },
+  { applies: (file) => !!file.outOfDate, mark: "↓" },
+  { applies: (file) => !!file.otherOpens?.length, mark: "+" }, // Also opened elsewhere
+];
+
+/**
+ * Badges and colours files in the explorer and editor tabs by their open action,
+ * with a mark for locks, files that need a sync and files opened by others too.
+ * Files only others have open get just the mark. Colours propagate to the
+ * folders above. Fed by one workspace's RepositoryStateManager.
+ */
+export class PerforceDecorationProvider
+  implements vscode.FileDecorationProvider, vscode.Disposable
+{
+  private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<
+    vscode.Uri[]
+  >();
+  readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly stateManager: RepositoryStateManager) {
+    this.disposables.push(
+      stateManager.onDidChange(this.onStateChange, this),
+      stateManager.onDidChangeOtherOpens(
+        (uri) => this._onDidChangeFileDecorations.fire([uri]),
+        this,
+      ),
+      vscode.window.registerFileDecorationProvider(this),
+      this._onDidChangeFileDecorations,
+    );
+  }
+
+  public provideFileDecoration(
+    uri: vscode.Uri,
+  ): vscode.FileDecoration | undefined {
+    const file = this.stateManager.getFileState(uri);
+    const decoration = file && ACTION_DECORATIONS[file.action ?? ""];
+    if (!file || !decoration) {
+      // Not opened here; `p4 status` and shelf entries aren't decorated
+      const otherOpens = this.stateManager.getOtherOpens(uri);
+      return otherOpens.length > 0
+        ? new vscode.FileDecoration(
+            "+",
+            `Perforce: opened by ${otherOpens.map(describeOtherOpen).join(", ")}`,
+          )
+        : undefined;
+    }
+
+    const notes = [`Opened for ${file.action}`];
+    if (file.changelist !== "default") {
+      notes.push(`in changelist ${file.changelist}`);
+    }
+    if (file.ourLock) {
+      notes.push("locked by you");
+    }
+    if (file.otherLock) {
+      notes.push(`locked by ${file.otherLock}`);
+    }
+    if (file.outOfDate) {
+      notes.push("needs sync");
+    }
+    if (file.otherOpens?.length) {
+      notes.push(
+        `also opened by ${file.otherOpens.map(describeOtherOpen).join(", ")}`,
+      );
+    }
+    if (file.diffStatus === "unresolved") {
+      notes.push("needs resolve");
+    }
+
+    const mark = MARKS.find((candidate) => candidate.applies(file))?.mark;
+    const color =
+      file.diffStatus === "unresolved"
+        ? "perforceDecoration.unresolvedForeground"
+        : file.ourLock || file.otherLock
+          ? "perforceDecoration.lockForeground"
+          : decoration.color;
+    const decorated = new vscode.FileDecoration(
+      decoration.badge + (mark ?? ""),
+      `Perforce: ${notes.join(", ")}`,
+      new vscode.ThemeColor(color),
+    );
+    decorated.propagate = true;
+    return decorated;
+  }
+
+  private onStateChange(delta: P4StateDelta): void {
+    const { added, removed, changed } = delta.files;
+    const uris = [...added, ...removed, ...changed].map((file) => file.uri);
+    if (uris.length > 0) {
+      this._onDidChangeFileDecorations.fire(uris);
+    }
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
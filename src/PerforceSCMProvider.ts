@@ -1,3 +1,5 @@
+import * as fs from "fs";
+import * as path from "path";
 import * as vscode from "vscode";
 import { PerforceService } from "./PerforceService";
 import {
@@ -7,10 +9,17 @@ import {
   P4JobSummary,
   P4ChangeSummary,
   P4CommandContext,
+  P4ExecuteOptions,
   P4Info,
+  P4BatchResult,
 } from "./p4/p4Types";
 import { getP4OptionsFromConfig } from "./p4/p4Utils";
-import { RepositoryStateManager, P4File } from "./RepositoryStateManager";
+import { PerforceDecorationProvider } from "./PerforceDecorationProvider";
+import {
+  RepositoryStateManager,
+  P4File,
+  describeOtherOpen,
+} from "./RepositoryStateManager";
 import {
   p4edit,
   p4revert,
@@ -21,6 +30,7 @@ import {
   p4diff2,
   p4resolve,
   p4where,
+  p4reconcile,
 } from "./p4/fileCommands";
 import {
   p4newChangeSpec,
@@ -29,29 +39,126 @@ import {
   p4submit,
   p4describe,
   p4changes,
+  p4changeFields,
+  p4saveChangeFields,
 } from "./p4/changelistCommands";
 import { p4shelve, p4unshelve } from "./p4/shelveCommands";
 import { p4fixJob, p4job, p4jobs } from "./p4/jobCommands";
 import { p4annotate, p4filelog } from "./p4/historyCommands";
+import { isP4Error } from "./p4/p4Errors";
+import {
+  OfflineWorkLog,
+  offlineWorkKey,
+  P4OfflineAction,
+  P4SavedOfflineChange,
+} from "./p4/offlineWork";
+import { createDepotUri, EMPTY_REVISION } from "./PerforceContentProvider";
+import { applyLineChanges, LineChange } from "./quickDiff";
+import { parseUnicodeInfo } from "./p4/charset";
+import { p4probe } from "./p4/serverProbe";
+import {
+  getChangelistViewSettings,
+  shapeChangelists,
+} from "./changelistGroups";
+import { ServerPoller } from "./ServerPoller";
+import {
+  deserializeState,
+  isSameIdentity,
+  P4SnapshotIdentity,
+  P4StateSnapshot,
+  serializeState,
+  snapshotKey,
+} from "./stateSnapshot";
+
+// How often to retry the server while offline
+const RECONNECT_INTERVAL_MS = 30 * 1000;
+// Saves and syncs touch files in bursts; wait for a pause before querying them
+const FILE_EVENT_DELAY_MS = 500;
+// State changes come in runs; save the snapshot once they settle
+const SNAPSHOT_SAVE_DELAY_MS = 2000;
+// Settings that change what the view shows without changing the state
+const VIEW_SETTINGS = [
+  "perforce.hideShelvedFiles",
+  "perforce.hideEmptyChangelists",
+  "perforce.changelistOrder",
+  "perforce.ignoredChangelistPrefix",
+  "perforce.hideNonWorkspaceFiles",
+  "perforce.countBadge",
+];
+
+// What one resource group in the view shows
+interface GroupContent {
+  id: string;
+  label: string;
+  resourceStates: vscode.SourceControlResourceState[];
+}
 
-export class PerforceSCMProvider implements vscode.Disposable {
+// Whether a file (by its local path, for shelved files) is in a VS Code workspace folder
+function isInWorkspace(file: P4File): boolean {
+  const uri =
+    file.uri.scheme === "file"
+      ? file.uri
+      : file.localPath
+        ? vscode.Uri.file(file.localPath)
+        : undefined;
+  return !uri || !!vscode.workspace.getWorkspaceFolder(uri);
+}
+
+export class PerforceSCMProvider
+  implements vscode.Disposable, vscode.QuickDiffProvider
+{
   private _scm: vscode.SourceControl;
   private _repositoryStateManager: RepositoryStateManager;
   private _perforceService: PerforceService;
   private _outputChannel: vscode.OutputChannel;
   private _disposables: vscode.Disposable[] = [];
   public readonly rootUri: vscode.Uri;
+  // Edits, adds and deletes made while the server was unreachable, reconciled on reconnect;
+  // kept in workspace storage so a reload does not lose them
+  private readonly offlineWork: OfflineWorkLog;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  // Files changed on disk since the last incremental update, flushed after a short quiet period
+  private readonly changedUris = new Map<string, vscode.Uri>();
+  private changedUrisTimer: ReturnType<typeof setTimeout> | undefined;
+  // The state is saved to workspace storage and shown on the next start until it is refreshed
+  private readonly snapshotKey: string;
+  private clientIdentity: P4SnapshotIdentity | undefined; // From `p4 info`, once known
+  // Set when `p4 info` failed; not retried until a user command succeeds or the server is back
+  private clientIdentityFailed = false;
+  private readonly poller: ServerPoller;
+  // Resource groups by id (changelist number, "default", "outOfDate" or "offline")
+  private readonly groups = new Map<
+    string,
+    vscode.SourceControlResourceGroup
+  >();
+  private snapshotTimer: ReturnType<typeof setTimeout> | undefined;
+  // Files already warned about being opened by others, until their document closes
+  private readonly warnedOtherOpens = new Set<string>();
 
-  constructor(contextUri: vscode.Uri, outputChannel: vscode.OutputChannel) {
+  /**
+   * @param storage Where to keep the state between sessions (the workspace state);
+   *   without it every start waits for a full update.
+   * @param ownsFile Whether a file under the root is this provider's rather than
+   *   a nested client's, whose provider handles its file events instead.
+   */
+  constructor(
+    contextUri: vscode.Uri,
+    perforceService: PerforceService,
+    outputChannel: vscode.OutputChannel,
+    private readonly storage?: vscode.Memento,
+    private readonly ownsFile: (uri: vscode.Uri) => boolean = () => true,
+  ) {
     this._outputChannel = outputChannel;
     this.rootUri = contextUri;
 
     const scmId = `perforce-${contextUri.toString()}`;
     const scmTitle = `Perforce (${vscode.workspace.asRelativePath(contextUri)})`;
     this._scm = vscode.scm.createSourceControl(scmId, scmTitle, contextUri);
+    this._disposables.push(this._scm);
 
     const p4Options = getP4OptionsFromConfig(contextUri);
-    this._perforceService = new PerforceService(this._outputChannel);
+    // Shared across providers so that the concurrency limit applies to all p4 processes
+    this._perforceService = perforceService;
     this._repositoryStateManager = new RepositoryStateManager(
       this._perforceService,
       this._outputChannel,
@@ -59,26 +166,106 @@ export class PerforceSCMProvider implements vscode.Disposable {
     );
 
     this._scm.inputBox.placeholder = "Enter changelist description";
+    this._scm.quickDiffProvider = this;
+    this.snapshotKey = snapshotKey(p4Options);
+    this.offlineWork = new OfflineWorkLog(
+      this.storage?.get<P4SavedOfflineChange[]>(
+        offlineWorkKey(this.snapshotKey),
+      ),
+    );
 
     this._repositoryStateManager.onDidChange(
       this.onStateChange,
       this,
       this._disposables,
     );
+    this._disposables.push(
+      new PerforceDecorationProvider(this._repositoryStateManager),
+    );
+    this._repositoryStateManager.onDidChangeOffline(
+      this.onOfflineChange,
+      this,
+      this._disposables,
+    );
+    this._perforceService.onDidRunUserCommand(
+      this.onUserCommandSuccess,
+      this,
+      this._disposables,
+    );
+    vscode.window.onDidChangeActiveTextEditor(
+      this.onActiveEditorChange,
+      this,
+      this._disposables,
+    );
+    vscode.workspace.onDidChangeTextDocument(
+      this.onDocumentChange,
+      this,
+      this._disposables,
+    );
+    vscode.workspace.onDidCloseTextDocument(
+      (document) => this.warnedOtherOpens.delete(document.uri.toString()),
+      this,
+      this._disposables,
+    );
 
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(contextUri, "**/*"),
+    );
     this._disposables.push(
-      vscode.commands.registerCommand("perforce.Refresh", async () => {
-        this._outputChannel.appendLine(`Refresh triggered for ${scmTitle}`);
-        await this.refresh();
+      watcher,
+      watcher.onDidChange(this.onFileEvent, this),
+      watcher.onDidCreate((uri) => this.onFileEvent(uri, "add")),
+      watcher.onDidDelete((uri) => this.onFileEvent(uri, "delete")),
+    );
+
+    this.poller = new ServerPoller(
+      () => this.probeServer(),
+      () => this.refresh(),
+    );
+    this._disposables.push(
+      this.poller,
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("perforce.poll", contextUri)) {
+          this.configurePoller();
+        }
+        if (
+          VIEW_SETTINGS.some((setting) =>
+            e.affectsConfiguration(setting, contextUri),
+          )
+        ) {
+          this.onStateChange();
+        }
       }),
-      this._scm,
     );
+    this.configurePoller();
 
     this._outputChannel.appendLine(
       `Perforce SCM Provider initialized for ${scmTitle}`,
     );
 
-    this.refresh();
+    const snapshot = this.storage?.get<P4StateSnapshot>(this.snapshotKey);
+    const saved = deserializeState(snapshot);
+    if (snapshot && saved) {
+      this._repositoryStateManager.loadSnapshot(saved.files, saved.changelists);
+    }
+
+    // Unicode servers reject every command until P4CHARSET is set, so settle it before the first refresh
+    void this._perforceService
+      .detectCharset(p4Options)
+      .catch((error) =>
+        this._outputChannel.appendLine(
+          `Could not detect the server charset: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      )
+      .then(() => this.checkSnapshotIdentity(snapshot))
+      .then(() => this.refresh())
+      .then(() => {
+        if (!this.isOffline && this.offlineWork.size > 0) {
+          void this.promptOfflineWork(); // Left over from the last session
+        }
+        this.poller.start();
+        return this.onActiveEditorChange(vscode.window.activeTextEditor);
+      });
   }
 
   public getScmInputBoxMessage(): string {
@@ -89,33 +276,468 @@ export class PerforceSCMProvider implements vscode.Disposable {
     this._scm.inputBox.value = "";
   }
 
-  private async refresh(): Promise<void> {
+  /**
+   * QuickDiffProvider: the gutter baseline for an opened file is its #have revision.
+   * Files not opened for edit/integrate have no meaningful baseline and get no markers.
+   */
+  public provideOriginalResource(uri: vscode.Uri): vscode.Uri | undefined {
+    if (uri.scheme !== "file") {
+      return undefined;
+    }
+    const fileState = this._repositoryStateManager.getFileState(uri);
+    if (
+      !fileState ||
+      fileState.isShelved ||
+      (fileState.status !== "edit" && fileState.status !== "integrate")
+    ) {
+      return undefined;
+    }
+    return createDepotUri(fileState.depotPath, "#have", this.rootUri);
+  }
+
+  /**
+   * Reverts a single QuickDiff hunk by rewriting the document as the
+   * original revision plus every other change.
+   * @param resourceUri The workspace file containing the change.
+   * @param changes All changes in the file, as reported by the editor.
+   * @param index Index into changes of the hunk to revert.
+   */
+  public async revertChange(
+    resourceUri: vscode.Uri,
+    changes: LineChange[],
+    index: number,
+  ): Promise<void> {
+    const originalUri = this.provideOriginalResource(resourceUri);
+    if (!originalUri) {
+      throw new Error("File is not opened for edit in Perforce.");
+    }
+    this._outputChannel.appendLine(
+      `SCM Provider: Reverting change ${index + 1}/${changes.length} in ${resourceUri.fsPath}`,
+    );
+
+    const [originalDocument, modifiedDocument] = await Promise.all([
+      vscode.workspace.openTextDocument(originalUri),
+      vscode.workspace.openTextDocument(resourceUri),
+    ]);
+    const result = applyLineChanges(
+      originalDocument,
+      modifiedDocument,
+      changes.filter((_, i) => i !== index),
+    );
+
+    const fullRange = new vscode.Range(
+      modifiedDocument.lineAt(0).range.start,
+      modifiedDocument.lineAt(modifiedDocument.lineCount - 1).range.end,
+    );
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(resourceUri, fullRange, result);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error("The editor rejected the edit.");
+    }
+  }
+
+  /** Brings the state up to date with the server. */
+  public async refresh(): Promise<void> {
     await this._repositoryStateManager.updateState(this.rootUri);
   }
 
-  private onStateChange(): void {
+  /** Discards the known state and rebuilds it from the server. */
+  public async cleanRefresh(): Promise<void> {
     this._outputChannel.appendLine(
-      `Updating SCM view for ${this._scm.label}...`,
+      `SCM Provider: Clean refresh of ${this.rootUri.fsPath}`,
     );
+    await this._repositoryStateManager.updateState(this.rootUri, true);
+  }
 
-    const changelists = this._repositoryStateManager.getAllChangelists();
-    const allFiles = this._repositoryStateManager.getAllFiles();
+  // Re-queries only the given files rather than the whole client
+  private async refreshFiles(resourceUris: vscode.Uri[]): Promise<void> {
+    await this._repositoryStateManager.refreshFiles(resourceUris);
+  }
 
-    this._scm.inputBox.value = "";
-    const groups: vscode.SourceControlResourceGroup[] = [];
+  // While offline, creates and deletes are recorded for reconcileOfflineWork; edits
+  // are recorded by editFiles, which is what makes an unopened file writable
+  private onFileEvent(uri: vscode.Uri, offlineAction?: P4OfflineAction): void {
+    if (!this.ownsFile(uri)) {
+      return;
+    }
+    if (this.isOffline) {
+      if (offlineAction) {
+        void this.recordFileEvent(uri, offlineAction);
+      }
+      return; // The reconnect timer refreshes everything once the server is back
+    }
+    this.changedUris.set(uri.toString(), uri);
+    if (this.changedUrisTimer) {
+      clearTimeout(this.changedUrisTimer);
+    }
+    this.changedUrisTimer = setTimeout(() => {
+      this.changedUrisTimer = undefined;
+      const uris = Array.from(this.changedUris.values());
+      this.changedUris.clear();
+      void this.refreshFiles(uris);
+    }, FILE_EVENT_DELAY_MS);
+  }
+
+  private async recordFileEvent(
+    uri: vscode.Uri,
+    action: P4OfflineAction,
+  ): Promise<void> {
+    if (action === "add") {
+      try {
+        if (!(await fs.promises.stat(uri.fsPath)).isFile()) {
+          return; // p4 tracks files only
+        }
+      } catch {
+        return; // Already gone again
+      }
+    }
+    this.offlineWork.record(uri.fsPath, action);
+    this.onOfflineWorkChange();
+  }
 
-    changelists.forEach((change) => {
-      const groupLabel = `${change.id === "default" ? "Default" : change.id}: ${change.description.substring(0, 50)}${change.description.length > 50 ? "..." : ""}`;
-      const group = this._scm.createResourceGroup(change.id, groupLabel);
+  private onOfflineWorkChange(): void {
+    void this.storage?.update(
+      offlineWorkKey(this.snapshotKey),
+      this.offlineWork.serialize(),
+    );
+    this.onStateChange();
+  }
 
-      const filesInChange = allFiles.filter((f) => f.changelist === change.id);
+  /** True while the server is unreachable; file operations are then recorded locally. */
+  public get isOffline(): boolean {
+    return this._repositoryStateManager.offline;
+  }
+
+  private onOfflineChange(offline: boolean): void {
+    this.updatePlaceholder();
+    if (offline) {
+      this.scheduleReconnect();
+    } else {
+      this.clientIdentityFailed = false;
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = undefined;
+      }
+      if (this.offlineWork.size > 0) {
+        void this.promptOfflineWork();
+      }
+    }
+  }
 
-      group.resourceStates = filesInChange.map((file) =>
-        this.createResourceState(file),
+  // While offline, refresh periodically; the first refresh that succeeds ends offline mode
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      await this.refresh();
+      if (this.isOffline) {
+        this.scheduleReconnect();
+      }
+    }, RECONNECT_INTERVAL_MS);
+  }
+
+  /**
+   * Does locally what a p4 file command would, for use while offline: edits make
+   * the file writable, deletes remove it, adds only record it. Everything is
+   * recorded for reconcileOfflineWork.
+   */
+  private async recordOffline(
+    resourceUris: vscode.Uri[],
+    action: P4OfflineAction,
+  ): Promise<P4BatchResult> {
+    this._outputChannel.appendLine(
+      `SCM Provider: Offline; recording ${action} of ${resourceUris.length} file(s) locally.`,
+    );
+    const result: P4BatchResult = { succeeded: [], failed: [] };
+    for (const uri of resourceUris) {
+      try {
+        if (action === "edit") {
+          const { mode } = await fs.promises.stat(uri.fsPath);
+          await fs.promises.chmod(uri.fsPath, mode | 0o200);
+        } else if (action === "delete") {
+          await vscode.workspace.fs.delete(uri, { useTrash: true });
+        }
+        this.offlineWork.record(uri.fsPath, action);
+        result.succeeded.push(uri.fsPath);
+      } catch (error) {
+        result.failed.push({
+          file: uri.fsPath,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.onOfflineWorkChange();
+    return result;
+  }
+
+  private async promptOfflineWork(): Promise<void> {
+    const review = "Review and Open";
+    const choice = await vscode.window.showInformationMessage(
+      `Perforce is reachable again. ${this.offlineWork.size} file(s) were changed while offline.`,
+      review,
+    );
+    if (choice !== review) {
+      return;
+    }
+    try {
+      await this.reconcileOfflineWork();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `Failed to open offline work: ${errorMsg}`,
       );
+    }
+  }
 
-      groups.push(group);
+  /**
+   * Previews the recorded offline work with `p4 reconcile -n`, then opens the
+   * files the user keeps in a new changelist.
+   */
+  public async reconcileOfflineWork(): Promise<void> {
+    if (this.offlineWork.size === 0) {
+      vscode.window.showInformationMessage("No offline work to open.");
+      return;
+    }
+    if (this.isOffline) {
+      vscode.window.showWarningMessage(
+        "The Perforce server is still unreachable.",
+      );
+      return;
+    }
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
+    const context: P4CommandContext = {
+      execute: this._perforceService.execute.bind(this._perforceService),
+      outputChannel: this._outputChannel,
+    };
+    const paths = this.offlineWork.entries.map((change) => change.path);
+
+    const preview = await p4reconcile(context, paths, p4Options, {
+      preview: true,
     });
+    if (preview.length === 0) {
+      vscode.window.showInformationMessage(
+        "Nothing to open: the files changed offline match the depot.",
+      );
+      this.offlineWork.clear();
+      this.onOfflineWorkChange();
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      preview.map((file) => ({
+        label: path.basename(file.clientFile),
+        description: file.action,
+        detail: file.clientFile,
+        picked: true,
+        file,
+      })),
+      {
+        canPickMany: true,
+        title: "Open offline work in a new changelist",
+        placeHolder: "Files changed while offline (from p4 reconcile -n)",
+      },
+    );
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    const fields = await p4changeFields(context, undefined, p4Options);
+    const description = this._scm.inputBox.value.trim();
+    fields.Description = description || "Work done while offline";
+    fields.Files = []; // A new, empty change; the default changelist stays as it is
+    const change = await p4saveChangeFields(context, fields, p4Options);
+    if (description) {
+      this.clearScmInputBoxMessage(); // Used up by the new change
+    }
+    const opened = await p4reconcile(
+      context,
+      picked.map((item) => item.file.clientFile),
+      p4Options,
+      { changelist: change },
+    );
+    // Files left unpicked are still changed on disk; p4 status will keep showing them
+    this.offlineWork.clear();
+    this.onOfflineWorkChange();
+    await this.refresh();
+    vscode.window.showInformationMessage(
+      `Opened ${opened.length} file(s) in changelist ${change}.`,
+    );
+  }
+
+  private configurePoller(): void {
+    const config = vscode.workspace.getConfiguration("perforce", this.rootUri);
+    this.poller.configure(
+      Math.max(0, config.get<number>("poll.interval", 60)) * 1000,
+      config.get<boolean>("poll.whenUnfocused", false),
+    );
+  }
+
+  // Fingerprints the client's changes and opened files, for the poller to
+  // refresh only when they change
+  private async probeServer(): Promise<string | undefined> {
+    if (this._repositoryStateManager.offline) {
+      return undefined; // scheduleReconnect retries meanwhile
+    }
+    const client = (await this.fetchClientIdentity())?.clientName;
+    if (!client) {
+      return undefined;
+    }
+    const context: P4CommandContext = {
+      execute: (command, args, options, tagged, input, executeOptions) =>
+        this._perforceService.execute(command, args, options, tagged, input, {
+          ...executeOptions,
+          interactive: false,
+        }),
+      outputChannel: this._outputChannel,
+    };
+    try {
+      return await p4probe(
+        context,
+        getP4OptionsFromConfig(this.rootUri),
+        client,
+      );
+    } catch (error) {
+      this.onBackgroundFailure(error);
+      throw error;
+    }
+  }
+
+  // Background work does not prompt, so failures only the user can fix (logging
+  // in, trusting the server) pause polling until a command they run succeeds
+  private onBackgroundFailure(error: unknown): void {
+    if (isP4Error(error, "connectionRefused")) {
+      this._repositoryStateManager.setOffline(true);
+    } else if (
+      isP4Error(error, "authExpired", "sslUntrusted", "sslFingerprintChanged")
+    ) {
+      this._outputChannel.appendLine(
+        `Pausing polling for ${this.rootUri.fsPath} until a Perforce command succeeds: ${error.category}.`,
+      );
+      this.poller.pause();
+    }
+  }
+
+  private onUserCommandSuccess(): void {
+    this.clientIdentityFailed = false;
+    this.poller.resume();
+  }
+
+  private updatePlaceholder(): void {
+    this._scm.inputBox.placeholder = this._repositoryStateManager.offline
+      ? "Offline: edits, adds and deletes are recorded and can be opened on reconnect"
+      : this._repositoryStateManager.stale
+        ? "Showing the state from the last session; refreshing..."
+        : "Enter changelist description";
+  }
+
+  // Reads `p4 info` to tell whether a saved snapshot is of this server, client and
+  // root; one that isn't is dropped. Left in place if the server is unreachable.
+  private async checkSnapshotIdentity(
+    snapshot: P4StateSnapshot | undefined,
+  ): Promise<void> {
+    const identity = await this.fetchClientIdentity();
+    if (snapshot && identity && !isSameIdentity(snapshot, identity)) {
+      this._outputChannel.appendLine(
+        "Saved state is of another server, client or root; discarding it.",
+      );
+      this._repositoryStateManager.discardSnapshot();
+      await this.storage?.update(this.snapshotKey, undefined);
+    }
+  }
+
+  private async fetchClientIdentity(): Promise<P4SnapshotIdentity | undefined> {
+    if (!this.clientIdentity && !this.clientIdentityFailed) {
+      try {
+        const info = await this.getInfo({ interactive: false });
+        this.clientIdentity = {
+          serverAddress: info.serverAddress ?? "",
+          clientName: info.clientName,
+          clientRoot: info.clientRoot ?? "",
+        };
+      } catch (error) {
+        this.clientIdentityFailed = true;
+        this.onBackgroundFailure(error);
+        return undefined; // getInfo logs the error
+      }
+    }
+    return this.clientIdentity;
+  }
+
+  private scheduleSnapshotSave(): void {
+    if (!this.storage || this._repositoryStateManager.stale) {
+      return; // Nothing new to save until the snapshot is refreshed
+    }
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+    }
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = undefined;
+      void this.saveSnapshot();
+    }, SNAPSHOT_SAVE_DELAY_MS);
+  }
+
+  private async saveSnapshot(): Promise<void> {
+    const identity = await this.fetchClientIdentity();
+    if (!identity || !this.storage) {
+      return;
+    }
+    const snapshot = serializeState(
+      this._repositoryStateManager.getAllFiles(),
+      this._repositoryStateManager.getAllChangelists(),
+      identity,
+    );
+    await this.storage.update(this.snapshotKey, snapshot);
+  }
+
+  private onStateChange(): void {
+    this._outputChannel.appendLine(
+      `Updating SCM view for ${this._scm.label}...`,
+    );
+    const stale = this._repositoryStateManager.stale;
+    this.updatePlaceholder();
+    this.scheduleSnapshotSave();
+
+    const settings = getChangelistViewSettings(this.rootUri);
+    const shaped = shapeChangelists(
+      this._repositoryStateManager.getAllChangelists(settings.changelistOrder),
+      this._repositoryStateManager.getAllFiles(),
+      settings,
+      isInWorkspace,
+    );
+    const shownFiles = shaped.flatMap((group) => group.files);
+
+    const groups: GroupContent[] = shaped.map(({ change, files }) => ({
+      id: change.id,
+      label: `${change.id === "default" ? "Default" : change.id}: ${change.description.substring(0, 50)}${change.description.length > 50 ? "..." : ""}${stale ? " (cached)" : ""}`,
+      resourceStates: files.map((file) => this.createResourceState(file)),
+    }));
+
+    const outOfDate = shownFiles.filter((file) => file.outOfDate);
+    if (outOfDate.length > 0) {
+      groups.push({
+        id: "outOfDate",
+        label: "Needs Sync",
+        resourceStates: outOfDate.map((file) => this.createResourceState(file)),
+      });
+    }
+
+    if (this.offlineWork.size > 0) {
+      groups.push({
+        id: "offline",
+        label: "Offline Work (not opened yet)",
+        resourceStates: this.offlineWork.entries.map((change) => ({
+          resourceUri: vscode.Uri.file(change.path),
+          decorations: {
+            tooltip: `${change.action} while offline, ${change.time.toLocaleTimeString()}`,
+            strikeThrough: change.action === "delete",
+          },
+          contextValue: `p4offline:${change.action}`,
+        })),
+      });
+    }
+    this.updateGroups(groups);
 
     const config = vscode.workspace.getConfiguration(
       "perforce",
@@ -125,15 +747,46 @@ export class PerforceSCMProvider implements vscode.Disposable {
 
     let count = 0;
     if (countBadgeMode === "all") {
-      count = allFiles.length;
+      count = shownFiles.length;
     } else if (countBadgeMode === "all-but-shelved") {
-      count = allFiles.filter((f) => !f.isShelved).length;
+      count = shownFiles.filter((f) => !f.isShelved).length;
     }
     this._scm.count = count > 0 ? count : undefined;
 
     this._outputChannel.appendLine("SCM view updated.");
   }
 
+  // Updates the groups in place, so the view keeps them expanded or collapsed.
+  // The view lists groups in creation order, so groups after the first one out
+  // of place are created anew.
+  private updateGroups(groups: GroupContent[]): void {
+    const wanted = new Set(groups.map((group) => group.id));
+    for (const [id, group] of Array.from(this.groups)) {
+      if (!wanted.has(id)) {
+        group.dispose();
+        this.groups.delete(id);
+      }
+    }
+    const current = Array.from(this.groups.keys());
+    const inPlace = current.findIndex((id, i) => groups[i]?.id !== id);
+    if (inPlace !== -1) {
+      for (const id of current.slice(inPlace)) {
+        this.groups.get(id)?.dispose();
+        this.groups.delete(id);
+      }
+    }
+
+    for (const { id, label, resourceStates } of groups) {
+      let group = this.groups.get(id);
+      if (!group) {
+        group = this._scm.createResourceGroup(id, label);
+        this.groups.set(id, group);
+      }
+      group.label = label;
+      group.resourceStates = resourceStates;
+    }
+  }
+
   private createResourceState(file: P4File): vscode.SourceControlResourceState {
     const resourceUri = file.uri;
     let tooltip = `${file.depotPath}\nStatus: ${file.status}`;
@@ -143,6 +796,31 @@ export class PerforceSCMProvider implements vscode.Disposable {
     if (file.type) {
       tooltip += `\nType: ${file.type}`;
     }
+    if (file.haveRevision || file.headRevision) {
+      const outOfDate =
+        file.haveRevision &&
+        file.headRevision &&
+        file.haveRevision !== file.headRevision;
+      tooltip += `\nRevision: ${file.haveRevision ?? "none"} of ${file.headRevision ?? "none"}${outOfDate ? " (not latest)" : ""}`;
+    }
+    if (file.headAction === "delete" || file.headAction === "move/delete") {
+      tooltip += `\nDeleted at head (${file.headAction})`;
+    }
+    if (file.movedFile) {
+      tooltip +=
+        file.action === "move/delete"
+          ? `\nMoved to: ${file.movedFile}`
+          : `\nMoved from: ${file.movedFile}`;
+    }
+    if (file.ourLock) {
+      tooltip += "\nLocked by you";
+    }
+    if (file.otherLock) {
+      tooltip += `\nLocked by ${file.otherLock}`;
+    }
+    if (file.otherOpens?.length) {
+      tooltip += `\nAlso opened by: ${file.otherOpens.map(describeOtherOpen).join(", ")}`;
+    }
 
     const strikeThrough =
       file.action === "delete" ||
@@ -184,6 +862,8 @@ export class PerforceSCMProvider implements vscode.Disposable {
     ) {
       DecorationColorId = "perforceDecoration.unresolvedForeground";
       tooltip += `\n${file.diffStatus.toUpperCase()}`;
+    } else if (file.diffStatus === "resolved") {
+      tooltip += "\nResolved";
     }
 
     if (file.isShelved) {
@@ -206,91 +886,196 @@ export class PerforceSCMProvider implements vscode.Disposable {
         dark: {},
         faded: faded,
       },
-      contextValue: `p4file:${file.action ?? "unknown"}${file.isShelved ? ":shelved" : ""}${file.diffStatus === "unresolved" ? ":unres" : ""}`,
+      contextValue: `p4file:${file.action ?? "unknown"}${file.isShelved ? ":shelved" : ""}${file.diffStatus === "unresolved" ? ":unres" : ""}${file.outOfDate ? ":outOfDate" : ""}`,
     };
   }
 
-  public async editFile(resourceUri: vscode.Uri): Promise<void> {
+  public async editFiles(resourceUris: vscode.Uri[]): Promise<P4BatchResult> {
     this._outputChannel.appendLine(
-      `SCM Provider: Request to edit ${resourceUri.fsPath}`,
+      `SCM Provider: Request to edit ${resourceUris.length} file(s) in ${this.rootUri.fsPath}`,
     );
-    const p4Options = getP4OptionsFromConfig(resourceUri);
+    if (this.isOffline) {
+      return this.recordOffline(resourceUris, "edit");
+    }
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
     const context: P4CommandContext = {
       execute: this._perforceService.execute.bind(this._perforceService),
       outputChannel: this._outputChannel,
     };
+    let result: P4BatchResult;
     try {
-      await p4edit(context, resourceUri.fsPath, p4Options);
-      await this.refresh();
+      result = await p4edit(
+        context,
+        resourceUris.map((uri) => uri.fsPath),
+        p4Options,
+      );
     } catch (error: any) {
+      if (isP4Error(error, "connectionRefused")) {
+        this._repositoryStateManager.setOffline(true);
+        return this.recordOffline(resourceUris, "edit");
+      }
       this._outputChannel.appendLine(
-        `SCM Provider: Error during p4edit for ${resourceUri.fsPath}: ${error.message}`,
+        `SCM Provider: Error during p4edit in ${this.rootUri.fsPath}: ${error.message}`,
       );
       throw error;
+    } finally {
+      await this.refreshFiles(resourceUris); // Some files may have changed even if others failed
     }
+    this.warnAboutOtherOpens(resourceUris);
+    return result;
   }
 
-  public async revertFile(resourceUri: vscode.Uri): Promise<void> {
+  // Editing a file someone else has open is how merge conflicts start; say so up front
+  private warnAboutOtherOpens(resourceUris: vscode.Uri[]): void {
+    const shared = resourceUris
+      .filter((uri) => !this.warnedOtherOpens.has(uri.toString()))
+      .map((uri) => ({
+        uri,
+        opens: this._repositoryStateManager.getOtherOpens(uri),
+      }))
+      .filter(({ opens }) => opens.length > 0);
+    if (shared.length === 0) {
+      return;
+    }
+    shared.forEach(({ uri }) => this.warnedOtherOpens.add(uri.toString()));
+    const [first] = shared;
+    const message =
+      shared.length === 1
+        ? `${vscode.workspace.asRelativePath(first.uri)} is also opened by ${first.opens.map(describeOtherOpen).join(", ")}.`
+        : `${shared.length} files you opened are also opened by others: ${shared
+            .map(
+              ({ uri, opens }) =>
+                `${vscode.workspace.asRelativePath(uri)} (${opens.map((open) => open.who).join(", ")})`,
+            )
+            .join("; ")}.`;
+    vscode.window.showWarningMessage(`Perforce: ${message}`);
+  }
+
+  // Files are often changed without `p4 edit` from here (allwrite clients, or
+  // edited elsewhere first), so the first change of a document warns too
+  private onDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    const uri = event.document.uri;
+    if (
+      event.contentChanges.length === 0 ||
+      uri.scheme !== "file" ||
+      !uri.fsPath.startsWith(this.rootUri.fsPath + path.sep)
+    ) {
+      return;
+    }
+    this.warnAboutOtherOpens([uri]);
+  }
+
+  // Looks up who else has the active editor's file open, for its decoration
+  private onActiveEditorChange(editor: vscode.TextEditor | undefined): void {
+    this._repositoryStateManager.forgetOtherOpens(
+      vscode.window.visibleTextEditors.map((visible) => visible.document.uri),
+    );
+    const uri = editor?.document.uri;
+    if (
+      !uri ||
+      uri.scheme !== "file" ||
+      this.isOffline ||
+      !uri.fsPath.startsWith(this.rootUri.fsPath + path.sep) ||
+      this._repositoryStateManager.getFileState(uri) // Opened here; updates already include other opens
+    ) {
+      return;
+    }
+    void this._repositoryStateManager.checkOtherOpens(uri);
+  }
+
+  public async revertFiles(resourceUris: vscode.Uri[]): Promise<P4BatchResult> {
     this._outputChannel.appendLine(
-      `SCM Provider: Request to revert ${resourceUri.fsPath}`,
+      `SCM Provider: Request to revert ${resourceUris.length} file(s) in ${this.rootUri.fsPath}`,
     );
-    const p4Options = getP4OptionsFromConfig(resourceUri);
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
     const context: P4CommandContext = {
       execute: this._perforceService.execute.bind(this._perforceService),
       outputChannel: this._outputChannel,
     };
     try {
-      await p4revert(context, resourceUri.fsPath, p4Options);
-      await this.refresh();
+      return await p4revert(
+        context,
+        resourceUris.map((uri) => uri.fsPath),
+        p4Options,
+      );
     } catch (error: any) {
       this._outputChannel.appendLine(
-        `SCM Provider: Error during p4revert for ${resourceUri.fsPath}: ${error.message}`,
+        `SCM Provider: Error during p4revert in ${this.rootUri.fsPath}: ${error.message}`,
       );
       throw error;
+    } finally {
+      await this.refreshFiles(resourceUris); // Some files may have changed even if others failed
     }
   }
 
-  public async addFile(resourceUri: vscode.Uri): Promise<void> {
+  public async addFiles(resourceUris: vscode.Uri[]): Promise<P4BatchResult> {
     this._outputChannel.appendLine(
-      `SCM Provider: Request to add ${resourceUri.fsPath}`,
+      `SCM Provider: Request to add ${resourceUris.length} file(s) in ${this.rootUri.fsPath}`,
     );
-    const p4Options = getP4OptionsFromConfig(resourceUri);
+    if (this.isOffline) {
+      return this.recordOffline(resourceUris, "add");
+    }
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
     const context: P4CommandContext = {
       execute: this._perforceService.execute.bind(this._perforceService),
       outputChannel: this._outputChannel,
     };
     try {
-      await p4add(context, resourceUri.fsPath, p4Options);
-      await this.refresh();
+      return await p4add(
+        context,
+        resourceUris.map((uri) => uri.fsPath),
+        p4Options,
+      );
     } catch (error: any) {
+      if (isP4Error(error, "connectionRefused")) {
+        this._repositoryStateManager.setOffline(true);
+        return this.recordOffline(resourceUris, "add");
+      }
       this._outputChannel.appendLine(
-        `SCM Provider: Error during p4add for ${resourceUri.fsPath}: ${error.message}`,
+        `SCM Provider: Error during p4add in ${this.rootUri.fsPath}: ${error.message}`,
       );
       throw error;
+    } finally {
+      await this.refreshFiles(resourceUris); // Some files may have changed even if others failed
     }
   }
 
-  public async deleteFile(resourceUri: vscode.Uri): Promise<void> {
+  public async deleteFiles(resourceUris: vscode.Uri[]): Promise<P4BatchResult> {
     this._outputChannel.appendLine(
-      `SCM Provider: Request to delete ${resourceUri.fsPath}`,
+      `SCM Provider: Request to delete ${resourceUris.length} file(s) in ${this.rootUri.fsPath}`,
     );
-    const p4Options = getP4OptionsFromConfig(resourceUri);
+    if (this.isOffline) {
+      return this.recordOffline(resourceUris, "delete");
+    }
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
     const context: P4CommandContext = {
       execute: this._perforceService.execute.bind(this._perforceService),
       outputChannel: this._outputChannel,
     };
     try {
-      await p4delete(context, resourceUri.fsPath, p4Options);
-      await this.refresh();
+      return await p4delete(
+        context,
+        resourceUris.map((uri) => uri.fsPath),
+        p4Options,
+      );
     } catch (error: any) {
+      if (isP4Error(error, "connectionRefused")) {
+        this._repositoryStateManager.setOffline(true);
+        return this.recordOffline(resourceUris, "delete");
+      }
       this._outputChannel.appendLine(
-        `SCM Provider: Error during p4delete for ${resourceUri.fsPath}: ${error.message}`,
+        `SCM Provider: Error during p4delete in ${this.rootUri.fsPath}: ${error.message}`,
       );
       throw error;
+    } finally {
+      await this.refreshFiles(resourceUris); // Some files may have changed even if others failed
     }
   }
 
-  public async syncFiles(resourceUris: vscode.Uri[]): Promise<void> {
+  public async syncFiles(
+    resourceUris: vscode.Uri[],
+    token?: vscode.CancellationToken,
+  ): Promise<P4BatchResult> {
     this._outputChannel.appendLine(
       `SCM Provider: Request to sync ${resourceUris.length > 0 ? resourceUris.length + " specific files" : "all files"} in ${this.rootUri.fsPath}`,
     );
@@ -298,12 +1083,18 @@ export class PerforceSCMProvider implements vscode.Disposable {
     const context: P4CommandContext = {
       execute: this._perforceService.execute.bind(this._perforceService),
       outputChannel: this._outputChannel,
+      token,
     };
     try {
       const filePaths = resourceUris.map((uri) => uri.fsPath);
-      await p4sync(context, filePaths, p4Options);
+      const result = await p4sync(context, filePaths, p4Options);
       await this.refresh();
+      return result;
     } catch (error: any) {
+      if (isP4Error(error, "cancelled")) {
+        // Files synced before the cancel are on disk; pick up their new have revisions
+        await this.refresh();
+      }
       this._outputChannel.appendLine(
         `SCM Provider: Error during p4sync for ${this.rootUri.fsPath}: ${error.message}`,
       );
@@ -311,6 +1102,52 @@ export class PerforceSCMProvider implements vscode.Disposable {
     }
   }
 
+  /**
+   * Catches opened files up with the head revision before submit finds them
+   * out of date: syncs them, which schedules resolves, then auto-merges.
+   * @param resourceUris Opened files to catch up.
+   * @param token Cancels the sync.
+   * @returns The sync result, and the files whose merge had conflicts and still need a resolve.
+   */
+  public async syncAndResolve(
+    resourceUris: vscode.Uri[],
+    token?: vscode.CancellationToken,
+  ): Promise<{ synced: P4BatchResult; conflicts: vscode.Uri[] }> {
+    this._outputChannel.appendLine(
+      `SCM Provider: Request to sync and resolve ${resourceUris.length} file(s) in ${this.rootUri.fsPath}`,
+    );
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
+    const context: P4CommandContext = {
+      execute: this._perforceService.execute.bind(this._perforceService),
+      outputChannel: this._outputChannel,
+      token,
+    };
+    try {
+      const synced = await p4sync(
+        context,
+        resourceUris.map((uri) => uri.fsPath),
+        p4Options,
+      );
+      if (synced.succeeded.length > 0) {
+        // -am only accepts merges without conflicts; conflicting files stay scheduled
+        await p4resolve(context, ["-am"], synced.succeeded, p4Options);
+      }
+      await this.refreshFiles(resourceUris);
+      const conflicts = resourceUris.filter(
+        (uri) =>
+          this._repositoryStateManager.getFileState(uri)?.diffStatus ===
+          "unresolved",
+      );
+      return { synced, conflicts };
+    } catch (error: any) {
+      this._outputChannel.appendLine(
+        `SCM Provider: Error during sync and resolve in ${this.rootUri.fsPath}: ${error.message}`,
+      );
+      await this.refreshFiles(resourceUris); // Files synced before the failure have moved on
+      throw error;
+    }
+  }
+
   public async moveFile(
     sourceUri: vscode.Uri,
     targetUri: vscode.Uri,
@@ -325,7 +1162,7 @@ export class PerforceSCMProvider implements vscode.Disposable {
     };
     try {
       await p4move(context, sourceUri.fsPath, targetUri.fsPath, p4Options);
-      await this.refresh();
+      await this.refreshFiles([sourceUri, targetUri]);
     } catch (error: any) {
       this._outputChannel.appendLine(
         `SCM Provider: Error during p4move from ${sourceUri.fsPath}: ${error.message}`,
@@ -376,15 +1213,16 @@ export class PerforceSCMProvider implements vscode.Disposable {
         return;
       }
 
-      let leftSpec: string | undefined;
-      let rightSpec: string = localPath; // Local file is always on the right
+      let leftPath = depotPath; // Depot file on the left; the source for a moved file
+      let leftRev: string; // Revision specifier appended to leftPath for the left side
+      let rightUri: vscode.Uri = resourceUri; // Local file is on the right unless the file is being deleted
 
       // Use status from command args if available, otherwise from cached state
       const effectiveStatus = status ?? fileState?.status;
 
       if (isShelved) {
         // Diff shelved vs local
-        leftSpec = `${depotPath}@=${_changelist}`; // Diff against shelved version in specified changelist
+        leftRev = `@=${_changelist}`; // Diff against shelved version in specified changelist
         title += ` (Shelved CL ${_changelist} vs Local)`;
       } else if (
         effectiveStatus === "add" ||
@@ -397,57 +1235,47 @@ export class PerforceSCMProvider implements vscode.Disposable {
         );
         await vscode.commands.executeCommand("vscode.open", resourceUri);
         return;
+      } else if (effectiveStatus === "move/add") {
+        // The new path has no revisions yet; diff against the file it was moved from
+        if (!fileState?.movedFile) {
+          await vscode.commands.executeCommand("vscode.open", resourceUri);
+          return;
+        }
+        leftPath = fileState.movedFile;
+        leftRev = "#have";
+        title += ` (Moved from #have vs Local)`;
       } else if (
         effectiveStatus === "edit" ||
         effectiveStatus === "integrate"
       ) {
         // Diff #have vs local file
-        leftSpec = `${depotPath}#have`;
+        leftRev = "#have";
         title += ` (Depot #have vs Local)`;
       } else if (
         effectiveStatus === "delete" ||
         effectiveStatus === "move/delete"
       ) {
-        // Show the depot version that was deleted
-        leftSpec = `${depotPath}#have`;
-        title += ` (Showing deleted revision #have)`;
-        // Can't diff against non-existent local file, just open the left side
-        const leftUri = vscode.Uri.parse(`perforce:${leftSpec}`); // Requires FileSystemProvider
-        // TODO: Implement FileSystemProvider for depot paths
-        this._outputChannel.appendLine(
-          ` TODO: Need FileSystemProvider to show depot content for ${leftSpec}`,
-        );
-        vscode.window.showInformationMessage(
-          `Showing deleted file content requires depot FileSystemProvider (TODO). Opening local path (may not exist).`,
-        );
-        // Attempt to open local path anyway, it might still exist temporarily
-        await vscode.commands.executeCommand("vscode.open", resourceUri);
-        return;
+        // Local file is gone (or about to be), so diff the deleted revision against nothing
+        leftRev = "#have";
+        rightUri = createDepotUri(depotPath, EMPTY_REVISION, this.rootUri);
+        title += ` (Deleted #have)`;
       } else {
         // Default: diff head vs local (for unmodified files or unknown status)
         // Use #head as a sensible default if no other status matches
-        leftSpec = `${depotPath}#head`;
+        leftRev = "#head";
         title += ` (Depot #head vs Local)`;
       }
 
-      if (leftSpec) {
-        // TODO: Implement FileSystemProvider to handle depot URIs like `perforce://depot/path#rev`
-        // For now, we cannot create the left URI for vscode.diff
-        this._outputChannel.appendLine(
-          ` TODO: Need FileSystemProvider to create URI for depot content: ${leftSpec}`,
-        );
-        vscode.window.showInformationMessage(
-          `Diffing requires depot FileSystemProvider (TODO). Opening local file ${localPath} instead.`,
-        );
-        await vscode.commands.executeCommand("vscode.open", resourceUri);
-        // When FileSystemProvider exists:
-        // const leftUri = vscode.Uri.parse(`perforce:${leftSpec}?root=${encodeURIComponent(this.rootUri.toString())}`); // Include rootUri for context
-        // const rightUri = resourceUri;
-        // await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title);
-      } else {
-        // Fallback: open local file if no diff applicable
-        await vscode.commands.executeCommand("vscode.open", resourceUri);
-      }
+      const leftUri = createDepotUri(leftPath, leftRev, this.rootUri);
+      this._outputChannel.appendLine(
+        ` Diffing ${leftUri.toString()} against ${rightUri.toString()}`,
+      );
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        leftUri,
+        rightUri,
+        title,
+      );
     } catch (error: any) {
       this._outputChannel.appendLine(
         `SCM Provider: Error opening resource ${resourceUri.fsPath}: ${error.message}`,
@@ -533,13 +1361,18 @@ export class PerforceSCMProvider implements vscode.Disposable {
       outputChannel: this._outputChannel,
     };
     try {
+      let submitId = changelistId;
       if (!changelistId && description) {
+        // Move the default changelist's files into a numbered change carrying the description
+        const fields = await p4changeFields(context, undefined, p4Options);
+        fields.Description = description;
+        submitId = await p4saveChangeFields(context, fields, p4Options);
         this._outputChannel.appendLine(
-          ` Warning: Submitting default changelist with description is not fully implemented. Description ignored.`,
+          ` Created changelist ${submitId} from default changelist for submit.`,
         );
       }
 
-      const result = await p4submit(context, changelistId, p4Options);
+      const result = await p4submit(context, submitId, p4Options);
       await this.refresh();
       return result;
     } catch (error: any) {
@@ -617,6 +1450,128 @@ export class PerforceSCMProvider implements vscode.Disposable {
     }
   }
 
+  /**
+   * Shelves opened files in their changelists, replacing what was shelved of
+   * them before. Whether the files are then reverted follows `perforce.fileShelveMode`.
+   * @param resourceUris Files opened in numbered changelists; the default changelist can't be shelved.
+   */
+  public async shelveFiles(resourceUris: vscode.Uri[]): Promise<void> {
+    this._outputChannel.appendLine(
+      `SCM Provider: Request to shelve ${resourceUris.length} file(s) in ${this.rootUri.fsPath}`,
+    );
+    const byChange = new Map<string, string[]>();
+    for (const uri of resourceUris) {
+      const file = this._repositoryStateManager.getFileState(uri);
+      if (!file?.action || file.isShelved) {
+        continue; // Not opened here
+      }
+      if (file.changelist === "default") {
+        throw new Error(
+          "Files in the default changelist can't be shelved; move them to a numbered changelist first.",
+        );
+      }
+      byChange.set(file.changelist, [
+        ...(byChange.get(file.changelist) ?? []),
+        uri.fsPath,
+      ]);
+    }
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
+    const context: P4CommandContext = {
+      execute: this._perforceService.execute.bind(this._perforceService),
+      outputChannel: this._outputChannel,
+    };
+    try {
+      for (const [change, paths] of byChange) {
+        await p4shelve(context, change, p4Options, ["-f", ...paths]);
+      }
+      const shelved = Array.from(byChange.values()).flat();
+      if (
+        shelved.length > 0 &&
+        (await this.confirmFileShelveSwap(
+          `Shelved ${shelved.length} file(s). Revert them?`,
+          "Revert",
+        ))
+      ) {
+        await p4revert(context, shelved, p4Options);
+      }
+    } catch (error: any) {
+      this._outputChannel.appendLine(
+        `SCM Provider: Error shelving files: ${error.message}`,
+      );
+      throw error;
+    } finally {
+      await this.refresh(); // Shelves are only read by a full update
+    }
+  }
+
+  /**
+   * Unshelves shelved files into the changelists they are shelved in. Whether
+   * they are then deleted from the shelf follows `perforce.fileShelveMode`.
+   * @param resourceUris Shelved files, as shown in the view.
+   */
+  public async unshelveFiles(resourceUris: vscode.Uri[]): Promise<void> {
+    this._outputChannel.appendLine(
+      `SCM Provider: Request to unshelve ${resourceUris.length} file(s) in ${this.rootUri.fsPath}`,
+    );
+    const byChange = new Map<string, string[]>();
+    for (const uri of resourceUris) {
+      const file = this._repositoryStateManager.getFileState(uri);
+      if (!file?.isShelved) {
+        continue;
+      }
+      const change = file.shelvedInChangelist ?? file.changelist;
+      byChange.set(change, [...(byChange.get(change) ?? []), file.depotPath]);
+    }
+    const p4Options = getP4OptionsFromConfig(this.rootUri);
+    const context: P4CommandContext = {
+      execute: this._perforceService.execute.bind(this._perforceService),
+      outputChannel: this._outputChannel,
+    };
+    try {
+      for (const [change, depotPaths] of byChange) {
+        await p4unshelve(context, change, change, p4Options, depotPaths);
+      }
+      const unshelved = Array.from(byChange.values()).flat();
+      if (
+        unshelved.length > 0 &&
+        (await this.confirmFileShelveSwap(
+          `Unshelved ${unshelved.length} file(s). Delete them from the shelf?`,
+          "Delete",
+        ))
+      ) {
+        for (const [change, depotPaths] of byChange) {
+          await p4shelve(context, change, p4Options, ["-d", ...depotPaths]);
+        }
+      }
+    } catch (error: any) {
+      this._outputChannel.appendLine(
+        `SCM Provider: Error unshelving files: ${error.message}`,
+      );
+      throw error;
+    } finally {
+      await this.refresh();
+    }
+  }
+
+  // Whether shelving a file also reverts it, and unshelving also deletes it from the shelf
+  private async confirmFileShelveSwap(
+    question: string,
+    action: string,
+  ): Promise<boolean> {
+    const mode = vscode.workspace
+      .getConfiguration("perforce", this.rootUri)
+      .get<string>("fileShelveMode", "prompt");
+    if (mode !== "prompt") {
+      return mode === "swap";
+    }
+    const answer = await vscode.window.showInformationMessage(
+      question,
+      action,
+      "Keep",
+    );
+    return answer === action;
+  }
+
   public async fixJob(changelistId: string, jobId: string): Promise<void> {
     this._outputChannel.appendLine(
       `SCM Provider: Requesting fix job ${jobId} for change ${changelistId}.`,
@@ -698,18 +1653,21 @@ export class PerforceSCMProvider implements vscode.Disposable {
         [resourceUri.fsPath],
         p4Options,
       );
-      await this.refresh(); // State changes after resolve
+      await this.refreshFiles([resourceUri]); // State changes after resolve
       return output;
     } catch (error: any) {
       this._outputChannel.appendLine(
         `SCM Provider: Error during p4resolve for ${resourceUri.fsPath}: ${error.message}`,
       );
-      await this.refresh(); // Refresh even on error
+      await this.refreshFiles([resourceUri]); // Refresh even on error
       throw error;
     }
   }
 
-  public async getChanges(args: string[]): Promise<P4ChangeSummary[]> {
+  public async getChanges(
+    args: string[],
+    token?: vscode.CancellationToken,
+  ): Promise<P4ChangeSummary[]> {
     this._outputChannel.appendLine(
       `SCM Provider: Requesting changes list with args: ${args.join(" ")}`,
     );
@@ -717,6 +1675,7 @@ export class PerforceSCMProvider implements vscode.Disposable {
     const context: P4CommandContext = {
       execute: this._perforceService.execute.bind(this._perforceService),
       outputChannel: this._outputChannel,
+      token,
     };
     try {
       return await p4changes(context, p4Options, args);
@@ -768,10 +1727,11 @@ export class PerforceSCMProvider implements vscode.Disposable {
 
   /**
    * Retrieves and parses the output of 'p4 info' for this provider's context.
+   * @param executeOptions Per-call controls, e.g. interactive: false for background lookups.
    * @returns A Promise resolving to a P4Info object containing parsed info.
    * @throws An error if 'p4 info' command fails or parsing is unsuccessful.
    */
-  public async getInfo(): Promise<P4Info> {
+  public async getInfo(executeOptions: P4ExecuteOptions = {}): Promise<P4Info> {
     this._outputChannel.appendLine(
       `SCM Provider: Requesting p4 info for ${this.rootUri.fsPath}`,
     );
@@ -788,6 +1748,8 @@ export class PerforceSCMProvider implements vscode.Disposable {
         [],
         p4Options,
         false,
+        undefined,
+        executeOptions,
       ); // Explicitly set tagged=false
       const stdout = result.stdout;
 
@@ -834,6 +1796,10 @@ export class PerforceSCMProvider implements vscode.Disposable {
         info.caseHandling = caseHandlingMatch[1].trim();
       }
 
+      const { unicode, charset } = parseUnicodeInfo(stdout);
+      info.unicode = unicode;
+      info.charset = charset;
+
       // Validate required fields
       if (!info.userName || !info.clientName) {
         this._outputChannel.appendLine(
@@ -859,6 +1825,16 @@ export class PerforceSCMProvider implements vscode.Disposable {
   }
 
   dispose() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    if (this.changedUrisTimer) {
+      clearTimeout(this.changedUrisTimer);
+    }
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      void this.saveSnapshot(); // Keep the latest changes for the next session
+    }
     this._disposables.forEach((d) => d.dispose());
     if (this._scm) {
       this._scm.dispose();
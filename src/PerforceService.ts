@@ -1,12 +1,44 @@
 import * as vscode from "vscode";
-import p4 from "reckless-node-perforce"; // Assuming default import
-const marshal = require("py-marshal"); // Import the parser library
-// import { P4Executable } from 'reckless-node-perforce/dist/p4executable'; // Need to check actual path/types
 
 // Import necessary types from the new file
-import { P4Options, P4Result } from "./p4/p4Types";
+import {
+  P4Options,
+  P4Result,
+  P4Message,
+  P4ExecuteOptions,
+  P4CommandPriority,
+} from "./p4/p4Types";
 // Import the specific command and context we need
 import { p4where, P4CommandContext } from "./p4/fileCommands";
+import { ClientViewMapper, p4clientView } from "./p4/clientView";
+import {
+  runP4Process,
+  killAllP4Processes,
+  P4ProcessResult,
+} from "./p4/p4Process";
+import { MarshalDecoder, MarshalRecord } from "./p4/marshal";
+import { CommandScheduler } from "./p4/commandScheduler";
+import {
+  P4Error,
+  P4ErrorCategory,
+  SESSION_ERROR_CATEGORIES,
+  classifyP4Error,
+  isP4Error,
+} from "./p4/p4Errors";
+import {
+  CommandLog,
+  P4CommandLogEntry,
+  redactArgs,
+  redactOptions,
+} from "./p4/commandLog";
+import { credentialTarget } from "./p4/credentials";
+import {
+  chooseCharset,
+  decodeP4Output,
+  outputCharset,
+  parseUnicodeInfo,
+  requiresCommandCharset,
+} from "./p4/charset";
 
 // REMOVE Interfaces that conflict with ./p4/p4Types
 /*
@@ -85,13 +117,85 @@ export interface P4FilelogEntry {
 }
 */
 
+// Commands that never change server or workspace state, so identical concurrent calls can share one process
+const READ_ONLY_COMMANDS = new Set([
+  "annotate",
+  "changes",
+  "clients",
+  "describe",
+  "diff2",
+  "filelog",
+  "files",
+  "fixes",
+  "fstat",
+  "info",
+  "jobs",
+  "opened",
+  "print",
+  "status",
+  "where",
+]);
+// Spec commands are read-only when only printing the spec
+const SPEC_COMMANDS = new Set(["change", "client", "job", "label", "user"]);
+
+/** True for commands that only read, e.g. `fstat` or `change -o`. */
+export function isReadOnlyCommand(command: string, args: string[]): boolean {
+  return (
+    READ_ONLY_COMMANDS.has(command) ||
+    (SPEC_COMMANDS.has(command) && args.includes("-o"))
+  );
+}
+
+// Commands used by recovery handlers themselves; their failures are reported, never recovered from
+const RECOVERY_COMMANDS = new Set(["login", "logout", "trust"]);
+
+/**
+ * Fixes a failure for the server and user in options (e.g., by logging in).
+ * Resolves to true if the failed commands should be run again.
+ */
+export type P4RecoveryHandler = (
+  options: P4Options,
+  error: P4Error,
+) => Promise<boolean>;
+
 export class PerforceService implements vscode.Disposable {
   private outputChannel: vscode.OutputChannel;
   private p4PathSetting: string | undefined; // Path to p4 executable from config
   private debugMode: boolean = false; // From config
+  private throttleDebugMode: boolean = false; // From config
+  private scheduler: CommandScheduler;
+  // Every p4 run, for the command log view; kept regardless of debugP4Commands
+  public readonly commandLog = new CommandLog();
+  // P4CHARSET detected per server (by P4PORT) for unicode servers; see detectCharset
+  private readonly serverCharsets = new Map<string, string>();
+  // Client views by server and client, loaded once for mapping paths; see getClientView
+  private readonly clientViews = new Map<
+    string,
+    Promise<ClientViewMapper | undefined>
+  >();
+  private readonly recoveryHandlers = new Map<
+    P4ErrorCategory,
+    P4RecoveryHandler
+  >();
+  // In-flight and last finished recovery per category, server and user (see recover)
+  private readonly pendingRecoveries = new Map<string, Promise<boolean>>();
+  private readonly lastRecovery = new Map<
+    string,
+    { finishedAt: number; succeeded: boolean }
+  >();
+  private readonly _onDidRunUserCommand = new vscode.EventEmitter<void>();
+  /** Fires when an interactive, user-priority command succeeds, e.g. after logging in. */
+  public readonly onDidRunUserCommand = this._onDidRunUserCommand.event;
 
   constructor(outputChannel: vscode.OutputChannel) {
     this.outputChannel = outputChannel;
+    this.scheduler = new CommandScheduler(0, (waiting, running) => {
+      if (this.throttleDebugMode) {
+        console.log(
+          `Perforce: command queued (${waiting} waiting, ${running} running)`,
+        );
+      }
+    });
     this.updateConfiguration();
 
     // Watch for configuration changes
@@ -108,6 +212,10 @@ export class PerforceService implements vscode.Disposable {
     this.p4PathSetting =
       commandPath && commandPath !== "none" ? commandPath : undefined;
     this.debugMode = config.get<boolean>("debugP4Commands", false);
+    this.throttleDebugMode = config.get<boolean>("debugModeActive", false);
+    this.scheduler.setMaxConcurrent(
+      config.get<number>("bottleneck.maxConcurrent", 10),
+    );
     this.outputChannel.appendLine(
       `PerforceService config updated: p4Path=${this.p4PathSetting}, debug=${this.debugMode}`,
     );
@@ -120,87 +228,356 @@ export class PerforceService implements vscode.Disposable {
    * @param options P4 environment options (P4USER, P4CLIENT, etc.) and cwd.
    * @param useTaggedOutput If true, attempts to use '-G' for tagged output.
    * @param input Standard input to pass to the p4 command (e.g., for 'p4 change -i').
+   * @param executeOptions Per-call controls: queue priority, streaming -G records via onRecord, cancellation token.
+   * Failures with a recovery handler (see setRecoveryHandler) are recovered from and the command retried,
+   * unless executeOptions.interactive is false.
+   * @throws P4Error if p4 cannot be started, exits with a non-zero code, or is cancelled.
    */
   public async execute(
     command: string,
     args: string[] = [],
     options: P4Options = {},
     useTaggedOutput = false,
-    input?: string,
+    input?: string | Buffer,
+    executeOptions: P4ExecuteOptions = {},
   ): Promise<P4Result> {
+    const startedAt = Date.now();
+    // Each kind of failure is recovered from at most once per call (e.g., trust the server, then log in)
+    const recovered = new Set<P4ErrorCategory>();
+    for (;;) {
+      try {
+        const result = await this.enqueue(
+          command,
+          args,
+          options,
+          useTaggedOutput,
+          input,
+          executeOptions,
+        );
+        if (
+          executeOptions.interactive !== false &&
+          executeOptions.priority !== "background"
+        ) {
+          this._onDidRunUserCommand.fire();
+        }
+        return result;
+      } catch (error) {
+        if (
+          !isP4Error(error) ||
+          executeOptions.interactive === false ||
+          recovered.has(error.category) ||
+          RECOVERY_COMMANDS.has(command) ||
+          executeOptions.token?.isCancellationRequested ||
+          !(await this.recover(error, options, startedAt))
+        ) {
+          throw error;
+        }
+        recovered.add(error.category);
+        this.outputChannel.appendLine(
+          `Retrying '${command}' after recovering from ${error.category}.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Sets how to recover from a category of failure that affects every command on
+   * a connection, such as an expired ticket or an untrusted SSL server. The handler
+   * resolves to true once fixed; the commands that failed are then run again.
+   */
+  public setRecoveryHandler(
+    category: P4ErrorCategory,
+    handler: P4RecoveryHandler,
+  ): void {
+    this.recoveryHandlers.set(category, handler);
+  }
+
+  /**
+   * Runs the recovery handler for a failure, per server and user.
+   * Commands failing at the same time share one recovery (and so one prompt),
+   * and commands that started before the last recovery finished reuse its outcome.
+   * @param startedAt When the failed command was submitted.
+   */
+  private async recover(
+    error: P4Error,
+    options: P4Options,
+    startedAt: number,
+  ): Promise<boolean> {
+    const handler = this.recoveryHandlers.get(error.category);
+    if (!handler) {
+      return false;
+    }
+    const { port, user } = credentialTarget(options);
+    const key = `${error.category}:${port}:${user}`;
+    const last = this.lastRecovery.get(key);
+    if (last && last.finishedAt >= startedAt) {
+      return last.succeeded;
+    }
+
+    let pending = this.pendingRecoveries.get(key);
+    if (!pending) {
+      this.outputChannel.appendLine(
+        `Recovering from ${error.category} for ${user}@${port}.`,
+      );
+      pending = handler(options, error)
+        .catch(() => false)
+        .then((succeeded) => {
+          this.lastRecovery.set(key, { finishedAt: Date.now(), succeeded });
+          this.pendingRecoveries.delete(key);
+          return succeeded;
+        });
+      this.pendingRecoveries.set(key, pending);
+    }
+    return pending;
+  }
+
+  /** Queues a command with the scheduler, sharing identical read-only runs. */
+  private enqueue(
+    command: string,
+    args: string[],
+    options: P4Options,
+    useTaggedOutput: boolean,
+    input: string | Buffer | undefined,
+    executeOptions: P4ExecuteOptions,
+  ): Promise<P4Result> {
+    // Identical read-only calls that are already queued or running share that run's result.
+    // Cancellable calls run alone, so cancelling one cannot kill a process another caller waits on.
+    const coalesce =
+      input === undefined &&
+      !executeOptions.onRecord &&
+      !executeOptions.token &&
+      isReadOnlyCommand(command, args);
+    const key = coalesce
+      ? JSON.stringify([command, args, options, useTaggedOutput])
+      : undefined;
+
+    return this.scheduler.schedule(
+      () =>
+        this.run(
+          command,
+          args,
+          options,
+          useTaggedOutput,
+          input,
+          executeOptions,
+        ),
+      executeOptions.priority ?? "user",
+      key,
+    );
+  }
+
+  /** Runs a command immediately; execute() decides when. */
+  private async run(
+    command: string,
+    args: string[],
+    options: P4Options,
+    useTaggedOutput: boolean,
+    input: string | Buffer | undefined,
+    executeOptions: P4ExecuteOptions,
+  ): Promise<P4Result> {
+    options = this.applyServerCharset(options);
     this.logCommand(command, args, options, input);
 
-    const effectiveArgs = [...args];
-    let requiresPythonParsing = false;
+    // -G is a global option and must precede the command; accept it in args for older callers
+    const commandArgs = args.filter((arg) => arg !== "-G");
+    const requiresPythonParsing =
+      useTaggedOutput || commandArgs.length !== args.length;
+    const globalArgs = requiresPythonParsing ? ["-G"] : [];
+
+    const p4Path = options.p4Path ?? this.p4PathSetting; // Allow per-call override, else use config
+
+    const commandCharset =
+      options.env?.P4COMMANDCHARSET ?? process.env.P4COMMANDCHARSET;
+    const charset = outputCharset(command, options.P4CHARSET, commandCharset);
+
+    // -G output is decoded record by record as it arrives rather than buffered
+    const tagged = requiresPythonParsing
+      ? new TaggedOutputCollector(executeOptions.onRecord, charset)
+      : undefined;
+
+    // Every run is recorded in the command log, whatever its outcome
+    const startTime = new Date();
+    const record = (
+      outcome: Pick<
+        P4CommandLogEntry,
+        | "exitCode"
+        | "error"
+        | "stdout"
+        | "stderr"
+        | "stdoutBytes"
+        | "stderrBytes"
+      >,
+    ) =>
+      this.commandLog.add({
+        command,
+        args: commandArgs,
+        options,
+        useTaggedOutput: requiresPythonParsing,
+        cwd: options.cwd,
+        startTime,
+        durationMs: Date.now() - startTime.getTime(),
+        hadInput: input !== undefined,
+        ...outcome,
+      });
+
+    let processResult: P4ProcessResult;
+    try {
+      processResult = await runP4Process(
+        p4Path,
+        [...globalArgs, command, ...commandArgs],
+        options,
+        input,
+        tagged ? (chunk) => tagged.push(chunk) : undefined,
+        executeOptions.token,
+      );
+    } catch (error: any) {
+      const message = error instanceof Error ? error.message : String(error);
+      record({
+        error: message,
+        stdout: "",
+        stderr: "",
+        stdoutBytes: tagged?.bytes ?? 0,
+        stderrBytes: 0,
+      });
+      if (isP4Error(error, "cancelled")) {
+        this.outputChannel.appendLine(`P4 command '${command}' cancelled.`);
+        throw error;
+      }
+      // Spawn failures (p4 not found, bad cwd)
+      this.logError(command, args, message);
+      throw new P4Error(`P4 command '${command}' failed: ${message}`, {
+        command,
+      });
+    }
 
-    if (useTaggedOutput) {
-      // p4 -G marshals output as Python objects. We'll need to parse this.
-      effectiveArgs.unshift("-G");
-      requiresPythonParsing = true;
+    tagged?.end();
+    if (tagged?.parseError) {
+      this.outputChannel.appendLine(
+        `Error parsing tagged output for command '${command}': ${tagged.parseError.message}`,
+      );
+      console.error("Tagged output parse error:", tagged.parseError);
     }
 
-    // Combine specific options with defaults, ensuring no undefined values are passed if the library doesn't handle them
-    const commandOptions: any = {
-      cwd: options.cwd,
-      p4Path: options.p4Path ?? this.p4PathSetting, // Allow per-call override, else use config
-      P4CLIENT: options.P4CLIENT,
-      P4USER: options.P4USER,
-      P4PORT: options.P4PORT,
-      P4PASSWD: options.P4PASSWD,
-      P4CHARSET: options.P4CHARSET,
-      P4CONFIG: options.P4CONFIG,
-      // Add stdin handling if the library supports it
-      // stdin: input
+    const stdout = decodeP4Output(processResult.stdout, charset);
+    // Error/info records are reported through stderr too, matching non-tagged output
+    const stderr = [
+      decodeP4Output(processResult.stderr, commandCharset ?? options.P4CHARSET),
+      ...(tagged?.messages ?? []).map((message) => message.data),
+    ]
+      .map((text) => text.trimEnd())
+      .filter((text) => text.length > 0)
+      .join("\n");
+    this.logOutput(stdout, stderr);
+    const outcome = {
+      exitCode: processResult.exitCode,
+      stdout: tagged ? tagged.preview() : stdout,
+      stderr,
+      stdoutBytes: tagged ? tagged.bytes : processResult.stdout.length,
+      stderrBytes: processResult.stderr.length,
     };
 
-    // Clean up undefined properties as reckless-node-perforce might pass them to spawn
-    Object.keys(commandOptions).forEach(
-      (key) => commandOptions[key] === undefined && delete commandOptions[key],
+    // Session-level failures (login, connection, client, SSL trust) make the whole result meaningless,
+    // even when p4 -G reports them with a zero exit code
+    const fatalMessages = (tagged?.messages ?? []).filter(
+      (message) => message.code === "error" && message.severity >= 3,
     );
+    const sessionFailure =
+      fatalMessages.length > 0 &&
+      SESSION_ERROR_CATEGORIES.includes(classifyP4Error("", fatalMessages));
+
+    if (processResult.exitCode !== 0 || sessionFailure) {
+      const reason = stderr.trim() || `exit code ${processResult.exitCode}`;
+      record({ ...outcome, error: reason });
+      this.logError(command, args, reason);
+      throw new P4Error(`P4 command '${command}' failed: ${reason}`, {
+        command,
+        exitCode: processResult.exitCode,
+        messages: tagged?.messages,
+      });
+    }
 
-    try {
-      // Assume reckless-node-perforce main export is the function call
-      // Need to verify if it accepts stdin
-      // NOTE: reckless-node-perforce needs to return stdout as a Buffer for marshal parsing
-      // If it returns a string, encoding issues might occur. Let's assume it can return a Buffer
-      // or that the string conversion is lossless for the relevant byte range.
-      const result = await p4(command, effectiveArgs, commandOptions);
-
-      const stdout = result.stdout ?? ""; // Assuming string for now
-      const stderr = result.stderr ?? "";
-      this.logOutput(stdout, stderr);
-
-      const p4Result: P4Result = { stdout, stderr };
-
-      if (requiresPythonParsing && stdout) {
-        try {
-          // Call the new parsing method
-          p4Result.parsedOutput = this.parseTaggedOutput(stdout);
-          if (this.debugMode) {
-            this.outputChannel.appendLine(
-              `Parsed Tagged Output (${command}): ${JSON.stringify(p4Result.parsedOutput, null, 2).substring(0, 1000)}...`,
-            );
-          }
-        } catch (parseError: any) {
-          this.outputChannel.appendLine(
-            `Error parsing tagged output for command '${command}': ${parseError.message}`,
-          );
-          console.error("Tagged output parse error:", parseError);
-          // Keep raw stdout, but log the error. Caller can decide how to handle.
-          // Alternatively, could re-throw or add an error flag to P4Result.
-        }
+    record(outcome);
+
+    const p4Result: P4Result = {
+      stdout,
+      stderr,
+      raw: processResult.stdout,
+      exitCode: processResult.exitCode,
+      durationMs: processResult.durationMs,
+    };
+
+    if (tagged) {
+      p4Result.messages = tagged.messages;
+      // Leave parsedOutput unset if nothing decoded, so callers can tell a parse failure from empty output
+      if (!tagged.parseError || tagged.records.length > 0) {
+        p4Result.parsedOutput = tagged.records;
+      }
+      if (this.debugMode) {
+        this.outputChannel.appendLine(
+          `Parsed Tagged Output (${command}): ${JSON.stringify(p4Result.parsedOutput, null, 2)?.substring(0, 1000)}...`,
+        );
       }
+    }
 
-      return p4Result;
-    } catch (error: any) {
-      // reckless-node-perforce rejects on non-zero exit code or spawn errors
-      const stderr =
-        error?.stderr ??
-        (error instanceof Error ? error.message : String(error));
-      this.logError(command, args, stderr);
-      // Re-throw a structured error? Or let the caller handle it?
-      throw new Error(`P4 command '${command}' failed: ${stderr}`);
+    return p4Result;
+  }
+
+  /**
+   * Detects whether a server runs in unicode mode and, if P4CHARSET is not
+   * configured, picks one that every later command to that server uses.
+   * Unicode servers reject commands from clients without a P4CHARSET.
+   * @param options P4 options for a workspace on the server.
+   * @returns The P4CHARSET in effect for the server, if any.
+   */
+  public async detectCharset(
+    options: P4Options = {},
+  ): Promise<string | undefined> {
+    if (options.P4CHARSET) {
+      return options.P4CHARSET; // Configured explicitly; p4 uses it as is
+    }
+    const { port } = credentialTarget(options);
+    const result = await this.execute("info", [], options);
+    const { unicode, charset } = parseUnicodeInfo(result.stdout);
+    if (!unicode) {
+      this.serverCharsets.delete(port);
+      return undefined;
+    }
+    const chosen =
+      charset ??
+      chooseCharset(
+        vscode.workspace
+          .getConfiguration("files")
+          .get<string>("encoding", "utf8"),
+      );
+    if (this.serverCharsets.get(port) !== chosen) {
+      this.outputChannel.appendLine(
+        `Server ${port} is unicode-enabled; using P4CHARSET=${chosen}. Set perforce.charset to override.`,
+      );
+      this.serverCharsets.set(port, chosen);
+    }
+    return chosen;
+  }
+
+  // Adds the P4CHARSET detected for the server unless one is configured, and the
+  // P4COMMANDCHARSET that utf16/utf32 charsets need
+  private applyServerCharset(options: P4Options): P4Options {
+    const charset =
+      options.P4CHARSET ??
+      this.serverCharsets.get(credentialTarget(options).port);
+    if (!charset || charset === "none") {
+      return options;
     }
+    const needsCommandCharset =
+      requiresCommandCharset(charset) &&
+      !options.env?.P4COMMANDCHARSET &&
+      !process.env.P4COMMANDCHARSET;
+    return {
+      ...options,
+      P4CHARSET: charset,
+      env: needsCommandCharset
+        ? { ...options.env, P4COMMANDCHARSET: "utf8" }
+        : options.env,
+    };
   }
 
   /**
@@ -216,28 +593,18 @@ export class PerforceService implements vscode.Disposable {
       this.outputChannel.appendLine("Login status check: User is logged in.");
       return true;
     } catch (error: any) {
-      // Handle specific error indicating "not logged in" vs other errors
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      if (
-        errorMessage.includes(
-          "Perforce password (P4PASSWD) invalid or unset",
-        ) ||
-        errorMessage.includes("Your session has expired") ||
-        errorMessage.includes("User not logged in")
-      ) {
+      // Distinguish "not logged in" from other errors (e.g., cannot connect)
+      if (isP4Error(error, "authExpired")) {
         this.outputChannel.appendLine(
           "Login status check: User is not logged in.",
         );
         return false;
-      } else {
-        // It might be a different error (e.g., cannot connect)
-        this.outputChannel.appendLine(
-          `Login status check failed with unexpected error: ${errorMessage}`,
-        );
-        // Re-throw unexpected errors
-        throw error;
       }
+      this.outputChannel.appendLine(
+        `Login status check failed with unexpected error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      // Re-throw unexpected errors
+      throw error;
     }
   }
 
@@ -252,7 +619,6 @@ export class PerforceService implements vscode.Disposable {
     this.outputChannel.appendLine("Attempting p4 login...");
     try {
       // Execute p4 login. If a password is provided, pass it as stdin.
-      // Note: relies on reckless-node-perforce and p4 handling stdin correctly.
       const result = await this.execute("login", [], options, false, password);
       if (result.stderr && !result.stderr.includes("User logged in")) {
         // Handle cases where login command succeeds (exit 0) but might show warnings
@@ -300,20 +666,27 @@ export class PerforceService implements vscode.Disposable {
     command: string,
     args: string[],
     options: P4Options,
-    input?: string,
+    input?: string | Buffer,
   ): void {
     if (!this.debugMode) {
       return;
     }
-    const cmdLine = `p4 ${command} ${args.join(" ")}`;
+    const cmdLine = `p4 ${command} ${redactArgs(args).join(" ")}`;
+    const loggedOptions = redactOptions(options);
     this.outputChannel.appendLine(`Executing: ${cmdLine}`);
-    this.outputChannel.appendLine(`  Options: ${JSON.stringify(options)}`);
-    if (input) {
+    this.outputChannel.appendLine(
+      `  Options: ${JSON.stringify(loggedOptions)}`,
+    );
+    if (command === "login" && input !== undefined) {
+      this.outputChannel.appendLine("  Input: <password>");
+    } else if (Buffer.isBuffer(input)) {
+      this.outputChannel.appendLine(`  Input: <${input.length} bytes>`);
+    } else if (input) {
       this.outputChannel.appendLine(
         `  Input: ${input.substring(0, 100)}${input.length > 100 ? "..." : ""}`,
       );
     }
-    console.log(`Executing P4: ${cmdLine}`, options); // Also log to dev console if needed
+    console.log(`Executing P4: ${cmdLine}`, loggedOptions); // Also log to dev console if needed
   }
 
   private logOutput(stdout: string, stderr: string): void {
@@ -340,67 +713,157 @@ export class PerforceService implements vscode.Disposable {
   }
 
   /**
-   * Parses the Python Marshalled output from p4 -G commands.
-   * @param stdout The raw standard output string from the p4 command.
-   * @returns The parsed JavaScript object/array.
-   * @throws Error if parsing fails.
+   * The View of a client, read once per server and client and then reused so
+   * paths can be mapped without a server round trip.
+   * @param options P4 options for the client.
+   * @param priority Queue priority for loading the spec.
+   * @returns The mapper, or undefined if the spec could not be read.
    */
-  private parseTaggedOutput(stdout: string): any {
-    if (!stdout) {
-      return null; // Or an empty array/object depending on expected output type?
+  public getClientView(
+    options: P4Options = {},
+    priority: P4CommandPriority = "user",
+  ): Promise<ClientViewMapper | undefined> {
+    const key = `${credentialTarget(options).port}:${options.P4CLIENT ?? ""}`;
+    let view = this.clientViews.get(key);
+    if (!view) {
+      const context: P4CommandContext = {
+        execute: (command, args, opts, tagged, input, executeOptions) =>
+          this.execute(command, args, opts, tagged, input, {
+            priority,
+            ...executeOptions,
+          }),
+        outputChannel: this.outputChannel,
+      };
+      view = p4clientView(context, options).catch(() => {
+        this.clientViews.delete(key); // Retried by the next caller; p4 where is used meanwhile
+        return undefined;
+      });
+      this.clientViews.set(key, view);
     }
+    return view;
+  }
 
-    try {
-      // Convert the string stdout to a Buffer for the marshal parser.
-      // IMPORTANT: Assuming the string encoding (e.g., from reckless-node-perforce)
-      // correctly represents the raw bytes from the marshal data.
-      // If reckless-node-perforce can provide a Buffer directly, that would be safer.
-      // Let's assume UTF-8 is problematic and try Latin1 (ISO-8859-1) as it maps
-      // byte values 0-255 directly to Unicode code points U+0000 to U+00FF.
-      const buffer = Buffer.from(stdout, "latin1");
-
-      // Use the python-marshal library to load the data
-      const parsedData = marshal.load(buffer);
-
-      // P4 -G often returns a list of dictionaries.
-      return parsedData;
-    } catch (error: any) {
-      this.outputChannel.appendLine(`Marshal parsing failed: ${error.message}`);
-      console.error(
-        "Marshal parsing error:",
-        error,
-        "Input string (first 500 chars):",
-        stdout.substring(0, 500),
-      );
-      // Re-throw the error to be caught by the execute method's catch block
-      throw new Error(
-        `Failed to parse marshalled Python output: ${error.message}`,
-      );
-    }
+  /** Forgets loaded client views, e.g. after a client spec may have changed. */
+  public clearClientViews(): void {
+    this.clientViews.clear();
   }
 
   /**
-   * Uses `p4 where` to find the local filesystem path for a given depot or client path.
+   * Finds the local filesystem path for a given depot or client path, from the
+   * client view when it can be loaded and with `p4 where` otherwise.
    * Wrapper around the p4where command function.
    * @param depotOrClientPath The depot or client path (e.g., //depot/main/file.c or //clientname/main/file.c)
    * @param options P4 options (especially cwd might be relevant)
+   * @param priority Queue priority for the lookup (background for refreshes).
+   * @param token Optional cancellation token for the lookup.
    * @returns The absolute local filesystem path, or null if not found/mapped.
    */
   public async getLocalPath(
     depotOrClientPath: string,
     options: P4Options = {},
+    priority: P4CommandPriority = "user",
+    token?: vscode.CancellationToken,
   ): Promise<string | null> {
     // Create the context required by the command function
     const context: P4CommandContext = {
-      // Bind execute to this instance to maintain context
-      execute: this.execute.bind(this),
+      execute: (command, args, opts, tagged, input, executeOptions) =>
+        this.execute(command, args, opts, tagged, input, {
+          priority,
+          ...executeOptions,
+        }),
       outputChannel: this.outputChannel,
+      token,
+      clientView: await this.getClientView(options, priority),
     };
     // Call the specific command function from fileCommands
     return p4where(context, depotOrClientPath, options);
   }
 
   dispose() {
-    // Nothing specific to dispose here unless we add watchers etc.
+    // p4 processes do not exit with the extension host on their own
+    killAllP4Processes();
+    this.commandLog.dispose();
+    this._onDidRunUserCommand.dispose();
+  }
+}
+
+/**
+ * Accumulates the records of a streaming -G command, separating
+ * error/info messages from data records.
+ */
+class TaggedOutputCollector {
+  public readonly records: MarshalRecord[] = [];
+  public readonly messages: P4Message[] = [];
+  public parseError: Error | undefined;
+  public bytes = 0; // Total -G output received
+  private streamedCount = 0;
+  private readonly decoder: MarshalDecoder;
+
+  constructor(
+    private onRecord?: (record: Record<string, any>) => void,
+    charset?: string,
+  ) {
+    this.decoder = new MarshalDecoder(charset);
+  }
+
+  public push(chunk: Buffer): void {
+    this.bytes += chunk.length;
+    if (this.parseError) {
+      return; // Stream is unusable past the first bad byte
+    }
+    try {
+      for (const value of this.decoder.push(chunk)) {
+        this.handleValue(value);
+      }
+    } catch (error: any) {
+      this.parseError =
+        error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  public end(): void {
+    if (this.parseError) {
+      return;
+    }
+    try {
+      for (const value of this.decoder.end()) {
+        this.handleValue(value);
+      }
+    } catch (error: any) {
+      this.parseError = error;
+    }
+  }
+
+  /** Readable summary of the decoded records, for the command log. */
+  public preview(): string {
+    if (this.streamedCount > 0) {
+      return `(${this.streamedCount} records streamed to the caller)`;
+    }
+    const shown = this.records.slice(0, 50); // Stringifying every record of a large fstat is wasted work
+    const more = this.records.length - shown.length;
+    return shown.length === 0
+      ? ""
+      : JSON.stringify(shown, null, 2) +
+          (more > 0 ? `\n... (${more} more records)` : "");
+  }
+
+  private handleValue(value: unknown): void {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return; // p4 only writes dictionaries
+    }
+    const record = value as MarshalRecord;
+    if (record.code === "error" || record.code === "info") {
+      this.messages.push({
+        code: record.code,
+        data: typeof record.data === "string" ? record.data : "",
+        severity: Number(record.severity ?? 0),
+        generic: Number(record.generic ?? 0),
+      });
+    } else if (this.onRecord) {
+      this.streamedCount++;
+      this.onRecord(record);
+    } else {
+      this.records.push(record);
+    }
   }
 }
@@ -1,6 +1,9 @@
 import * as vscode from "vscode";
 import { PerforceService } from "./PerforceService";
 import { P4Options, P4Result } from "./p4/p4Types"; // Import types directly
+import { isP4Error } from "./p4/p4Errors";
+import { chunk } from "./p4/batching";
+import { getMaxFilesPerCommand } from "./p4/p4Utils";
 
 // Interface definitions for managed items (example)
 export interface P4File {
@@ -20,6 +23,21 @@ export interface P4File {
   shelvedInChangelist?: string;
   user?: string;
   client?: string;
+  // From `p4 fstat`
+  headAction?: string; // Action of the head revision, e.g. 'delete' once someone deleted the file
+  otherOpens?: P4OtherOpen[]; // Other workspaces that have the file open
+  ourLock?: boolean; // Locked by this workspace
+  otherLock?: string; // user@client holding the lock, if another workspace does
+  movedFile?: string; // For move/add the depot path moved from, for move/delete the one moved to
+  digest?: string; // MD5 of the head revision
+  outOfDate?: boolean; // Have revision is behind head; submitting would need a sync and resolve first
+}
+
+// Another workspace's open of a file, from fstat's otherOpen/otherAction/otherChange fields
+export interface P4OtherOpen {
+  who: string; // user@client
+  action?: string;
+  changelist?: string;
 }
 
 export interface P4Changelist {
@@ -36,15 +54,199 @@ export interface P4Changelist {
   date?: Date; // Add date field
 }
 
+/** Describes another workspace's open for messages, e.g. "bob@bob-ws (edit) in CL 12". */
+export function describeOtherOpen(open: P4OtherOpen): string {
+  const action = open.action ? ` (${open.action})` : "";
+  const change =
+    !open.changelist || open.changelist === "default"
+      ? " in the default CL"
+      : ` in CL ${open.changelist}`;
+  return `${open.who}${action}${change}`;
+}
+
+/**
+ * Reads the per-file details of a `p4 -G fstat -Ol` record that `p4 opened`
+ * and `p4 status` do not report.
+ * @param record One fstat record.
+ * @returns The P4File fields the record has values for.
+ */
+export function parseFstatRecord(record: Record<string, any>): Partial<P4File> {
+  const fields: Partial<P4File> = {};
+  const set = <K extends keyof P4File>(
+    key: K,
+    value: P4File[K] | undefined,
+  ) => {
+    if (value !== undefined) {
+      fields[key] = value;
+    }
+  };
+  set("headRevision", record.headRev ? `#${record.headRev}` : undefined);
+  set("haveRevision", record.haveRev ? `#${record.haveRev}` : undefined);
+  set("headAction", record.headAction);
+  if (Number(record.haveRev) < Number(record.headRev)) {
+    fields.outOfDate = true;
+  }
+  set("type", record.type ?? record.headType);
+  set("movedFile", record.movedFile);
+  set("digest", record.digest);
+  if (record.ourLock !== undefined) {
+    fields.ourLock = true;
+  }
+  if (record.otherLock !== undefined) {
+    fields.otherLock = record.otherLock0 ?? "another workspace";
+  }
+  // Unresolved wins over reresolvable: both can be set while a resolve is half done
+  if (record.unresolved !== undefined) {
+    fields.diffStatus = "unresolved";
+  } else if (record.reresolvable !== undefined) {
+    fields.diffStatus = "reresolvable";
+  } else if (record.resolved !== undefined) {
+    fields.diffStatus = "resolved";
+  }
+
+  const otherOpens: P4OtherOpen[] = [];
+  for (let i = 0; record[`otherOpen${i}`]; i++) {
+    otherOpens.push({
+      who: record[`otherOpen${i}`],
+      action: record[`otherAction${i}`],
+      changelist: record[`otherChange${i}`],
+    });
+  }
+  if (otherOpens.length > 0) {
+    fields.otherOpens = otherOpens;
+  }
+  return fields;
+}
+
+// What one state update added, removed or changed; fired by RepositoryStateManager.onDidChange
+export interface P4StateDelta {
+  files: {
+    added: P4File[];
+    removed: P4File[];
+    changed: P4File[];
+  };
+  changelists: {
+    added: P4Changelist[];
+    removed: P4Changelist[];
+    changed: P4Changelist[]; // Including changes to which files they hold
+  };
+}
+
+// Above this many files per event batch, a full refresh is cheaper than fstat-ing each one
+export const MAX_INCREMENTAL_FILES = 500;
+
+function sameFile(a: P4File, b: P4File): boolean {
+  return (
+    a.depotPath === b.depotPath &&
+    a.localPath === b.localPath &&
+    a.status === b.status &&
+    a.action === b.action &&
+    a.changelist === b.changelist &&
+    a.revision === b.revision &&
+    a.headRevision === b.headRevision &&
+    a.haveRevision === b.haveRevision &&
+    a.type === b.type &&
+    a.diffStatus === b.diffStatus &&
+    a.isShelved === b.isShelved &&
+    a.shelvedInChangelist === b.shelvedInChangelist &&
+    a.headAction === b.headAction &&
+    a.ourLock === b.ourLock &&
+    a.otherLock === b.otherLock &&
+    a.movedFile === b.movedFile &&
+    a.digest === b.digest &&
+    a.outOfDate === b.outOfDate &&
+    JSON.stringify(a.otherOpens) === JSON.stringify(b.otherOpens)
+  );
+}
+
+function sameChangelist(a: P4Changelist, b: P4Changelist): boolean {
+  const fileKeys = (change: P4Changelist) =>
+    change.files
+      .map((file) => file.uri.toString())
+      .sort()
+      .join("\n");
+  return (
+    a.description === b.description &&
+    a.user === b.user &&
+    a.client === b.client &&
+    a.status === b.status &&
+    a.hasShelvedFiles === b.hasShelvedFiles &&
+    a.isRestricted === b.isRestricted &&
+    (a.jobs ?? []).join(",") === (b.jobs ?? []).join(",") &&
+    fileKeys(a) === fileKeys(b)
+  );
+}
+
+/**
+ * Compares two states (maps as held by RepositoryStateManager).
+ * @returns What changed from the previous state to the next.
+ */
+export function diffState(
+  previousFiles: Map<string, P4File>,
+  files: Map<string, P4File>,
+  previousChangelists: Map<string, P4Changelist>,
+  changelists: Map<string, P4Changelist>,
+): P4StateDelta {
+  const diff = <T>(
+    previous: Map<string, T>,
+    next: Map<string, T>,
+    same: (a: T, b: T) => boolean,
+  ) => {
+    const added: T[] = [];
+    const changed: T[] = [];
+    next.forEach((item, key) => {
+      const old = previous.get(key);
+      if (!old) {
+        added.push(item);
+      } else if (!same(old, item)) {
+        changed.push(item);
+      }
+    });
+    const removed = Array.from(previous.entries())
+      .filter(([key]) => !next.has(key))
+      .map(([, item]) => item);
+    return { added, removed, changed };
+  };
+  return {
+    files: diff(previousFiles, files, sameFile),
+    changelists: diff(previousChangelists, changelists, sameChangelist),
+  };
+}
+
+/** True if the delta holds no change at all. */
+export function isEmptyDelta(delta: P4StateDelta): boolean {
+  return [delta.files, delta.changelists].every(
+    (part) =>
+      part.added.length === 0 &&
+      part.removed.length === 0 &&
+      part.changed.length === 0,
+  );
+}
+
 export class RepositoryStateManager implements vscode.Disposable {
-  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  private readonly _onDidChange = new vscode.EventEmitter<P4StateDelta>();
   readonly onDidChange = this._onDidChange.event;
+  // Fires with true when the server becomes unreachable and false when it is back
+  private readonly _onDidChangeOffline = new vscode.EventEmitter<boolean>();
+  readonly onDidChangeOffline = this._onDidChangeOffline.event;
+  private _offline = false;
+  // Fires with a file whose opens by other workspaces were looked up with checkOtherOpens
+  private readonly _onDidChangeOtherOpens =
+    new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChangeOtherOpens = this._onDidChangeOtherOpens.event;
+  // Other workspaces' opens of files not opened here, keyed by uri.toString()
+  private readonly otherOpens = new Map<string, P4OtherOpen[]>();
+  private _stale = false; // Showing a loaded snapshot, until the first full update
 
   private files: Map<string, P4File> = new Map(); // Key: uri.toString()
   private changelists: Map<string, P4Changelist> = new Map(); // Key: changelist ID
   private perforceService: PerforceService;
   private outputChannel: vscode.OutputChannel;
   private isUpdating = false;
+  private updateCancellation: vscode.CancellationTokenSource | undefined; // Set while updateState runs
+  // Incremental updates run one after another; files changed during a full update wait for it
+  private fileUpdates: Promise<void> = Promise.resolve();
+  private readonly pendingFileUpdates = new Map<string, vscode.Uri>();
   private readonly p4Options: P4Options; // Store options
 
   constructor(
@@ -58,7 +260,16 @@ export class RepositoryStateManager implements vscode.Disposable {
     this.p4Options = options; // Store options
   }
 
-  public async updateState(resourceUri?: vscode.Uri): Promise<void> {
+  /**
+   * Rebuilds the whole state from `p4 opened`, `p4 status`, `p4 changes` and
+   * `p4 describe`. Slow on large clients; file changes go through refreshFiles instead.
+   * @param resourceUri Unused; kept for callers passing the workspace root.
+   * @param clean Start from nothing rather than from the changelists already known.
+   */
+  public async updateState(
+    resourceUri?: vscode.Uri,
+    clean = false,
+  ): Promise<void> {
     if (this.isUpdating) {
       this.outputChannel.appendLine(
         "Skipping updateState: Already in progress.",
@@ -72,29 +283,49 @@ export class RepositoryStateManager implements vscode.Disposable {
     const previousChangeKeys = new Set(this.changelists.keys());
     previousChangeKeys.delete("default"); // Don't prune the default changelist implicitly
 
-    // Clear existing file associations and the main map before fetching new data
-    this.files.clear();
-    this.changelists.forEach((change) => {
-      // Reset file lists for all changes, not just pending, to ensure clean state
-      change.files = [];
-    });
-    this.ensureDefaultChangelist(); // Ensure default exists with empty files array
+    // Build the new state separately and swap it in at the end, so a failed or
+    // cancelled update leaves the previous state intact
+    const files = new Map<string, P4File>();
+    const changelists = new Map<string, P4Changelist>();
+    if (clean) {
+      this.perforceService.clearClientViews(); // The client View may have been edited since
+    } else {
+      this.changelists.forEach((change, id) => {
+        // Copy with an empty file list; files are re-associated after URI resolution
+        changelists.set(id, { ...change, files: [] });
+      });
+    }
+    this.ensureDefaultChangelist(changelists); // Ensure default exists with empty files array
+
+    this.updateCancellation = new vscode.CancellationTokenSource();
+    const token = this.updateCancellation.token;
 
     try {
-      // --- Fetch Data (populates this.files with placeholder URIs) ---
+      // --- Fetch Data (populates files with placeholder URIs) ---
+      // Opened files are streamed record by record; large workspaces can have many thousands
       this.outputChannel.appendLine("Executing `p4 opened -G`...");
-      const openedResult = await this.perforceService.execute(
+      let openedCount = 0;
+      await this.perforceService.execute(
         "opened",
         [],
         this.p4Options,
         true,
+        undefined,
+        {
+          priority: "background",
+          token,
+          onRecord: (record) => {
+            const file = this.parseOpenedRecord(record);
+            if (file) {
+              files.set(file.uri.toString(), file); // Add to map using placeholder URI
+              openedCount++;
+            }
+          },
+        },
       );
-      const openedFiles = this.processP4Result(
-        openedResult,
-        this.parseOpenedOutput.bind(this),
-        "p4 opened",
+      this.outputChannel.appendLine(
+        `Parsed ${openedCount} files from \`p4 opened\`.`,
       );
-      openedFiles.forEach((f) => this.files.set(f.uri.toString(), f)); // Add to map using placeholder URI
 
       this.outputChannel.appendLine("Executing `p4 status -G`...");
       const statusResult = await this.perforceService.execute(
@@ -102,6 +333,8 @@ export class RepositoryStateManager implements vscode.Disposable {
         [],
         this.p4Options,
         true,
+        undefined,
+        { priority: "background", token },
       );
       const statusFiles = this.processP4Result(
         statusResult,
@@ -111,7 +344,7 @@ export class RepositoryStateManager implements vscode.Disposable {
       // Merge status files into the map, potentially overwriting/updating info from 'opened'
       statusFiles.forEach((statusFile) => {
         const key = statusFile.uri.toString(); // Placeholder URI
-        const existingFile = this.files.get(key);
+        const existingFile = files.get(key);
         if (existingFile) {
           // Merge status info into existing file from 'opened'
           this.outputChannel.appendLine(
@@ -138,11 +371,11 @@ export class RepositoryStateManager implements vscode.Disposable {
           this.outputChannel.appendLine(
             `Adding new file from status: ${key} (Status: ${statusFile.status})`,
           );
-          this.files.set(key, statusFile);
+          files.set(key, statusFile);
         }
       });
 
-      // --- Fetch Changelists (updates this.changelists, does not touch files yet) ---
+      // --- Fetch Changelists (updates changelists, does not touch files yet) ---
       this.outputChannel.appendLine(
         "Executing `p4 changes -s pending -l -G`...",
       );
@@ -158,17 +391,22 @@ export class RepositoryStateManager implements vscode.Disposable {
         changesArgs,
         this.p4Options,
         true,
+        undefined,
+        { priority: "background", token },
       );
       const pendingChanges = this.processP4Result(
         changesResult,
         this.parseChangesOutput.bind(this),
         "p4 changes",
       );
-      const currentChangeKeys = this.updateChangelists(pendingChanges); // Updates CL data, keeps file lists empty
+      const currentChangeKeys = this.updateChangelists(
+        pendingChanges,
+        changelists,
+      ); // Updates CL data, keeps file lists empty
 
-      // --- Fetch Shelved Files (adds to this.files map with placeholder URIs) ---
+      // --- Fetch Shelved Files (adds to files map with placeholder URIs) ---
       const shelvedFilePromises: Promise<P4File[]>[] = [];
-      this.changelists.forEach((change) => {
+      changelists.forEach((change) => {
         if (change.hasShelvedFiles && change.status === "pending") {
           this.outputChannel.appendLine(
             `Fetching shelved files for changelist ${change.id}...`,
@@ -179,6 +417,8 @@ export class RepositoryStateManager implements vscode.Disposable {
               ["-s", "-S", change.id, "-G"],
               this.p4Options,
               true,
+              undefined,
+              { priority: "background", token }, // Concurrency is capped by PerforceService
             )
             .then((result: P4Result) =>
               this.processP4Result(
@@ -188,6 +428,9 @@ export class RepositoryStateManager implements vscode.Disposable {
               ),
             )
             .catch((err: Error) => {
+              if (isP4Error(err, "cancelled")) {
+                throw err;
+              }
               this.outputChannel.appendLine(
                 `Failed to fetch/parse describe for ${change.id}: ${err.message}`,
               );
@@ -201,7 +444,7 @@ export class RepositoryStateManager implements vscode.Disposable {
       // Merge shelved files into the map
       allShelvedFiles.forEach((shelvedFile) => {
         const key = shelvedFile.uri.toString(); // Placeholder URI
-        const existingFile = this.files.get(key);
+        const existingFile = files.get(key);
         if (existingFile) {
           // Merge shelved info into existing file (e.g., from 'opened' or 'status')
           this.outputChannel.appendLine(
@@ -214,20 +457,23 @@ export class RepositoryStateManager implements vscode.Disposable {
           this.outputChannel.appendLine(
             `Adding new shelved file entry: ${key} (CL ${shelvedFile.changelist})`,
           );
-          this.files.set(key, shelvedFile);
+          files.set(key, shelvedFile);
         }
       });
 
+      // --- Fetch Per-File Details (updates files in place) ---
+      await this.fetchFileDetails(files, token);
+
       // --- Resolve URIs ---
-      await this.resolveFileUris(); // Updates this.files map with file: URIs and removes unresolved
+      await this.resolveFileUris(files, token); // Updates the files map with file: URIs and removes unresolved
 
       // --- Re-associate Resolved Files with Changelists ---
       this.outputChannel.appendLine(
-        `Re-associating ${this.files.size} resolved files with changelists...`,
+        `Re-associating ${files.size} resolved files with changelists...`,
       );
-      this.files.forEach((file) => {
+      files.forEach((file) => {
         const changeId = file.changelist;
-        let change = this.changelists.get(changeId);
+        let change = changelists.get(changeId);
         if (!change) {
           // Create placeholder for changelist if it wasn't fetched by 'p4 changes' but has resolved files
           this.outputChannel.appendLine(
@@ -242,7 +488,7 @@ export class RepositoryStateManager implements vscode.Disposable {
             files: [],
             date: new Date(), // Use current date as placeholder
           };
-          this.changelists.set(changeId, change);
+          changelists.set(changeId, change);
           currentChangeKeys.add(changeId); // Ensure this doesn't get pruned later
         }
 
@@ -260,29 +506,253 @@ export class RepositoryStateManager implements vscode.Disposable {
           this.outputChannel.appendLine(
             `Pruning changelist no longer pending: ${key}`,
           );
-          this.changelists.delete(key);
+          changelists.delete(key);
         }
       });
 
       // --- Finalize ---
       this.outputChannel.appendLine(
-        `Finished updating Perforce repository state. Files: ${this.files.size}, Changes: ${this.changelists.size}`,
+        `Finished updating Perforce repository state. Files: ${files.size}, Changes: ${changelists.size}`,
       );
-      this._onDidChange.fire();
+      this.setOffline(false);
+      const wasStale = this._stale;
+      this._stale = false;
+      this.commit(files, changelists, wasStale);
     } catch (error) {
+      if (isP4Error(error, "cancelled")) {
+        this.outputChannel.appendLine(
+          "Repository state update cancelled; keeping previous state.",
+        );
+        return;
+      }
       const errorMsg = error instanceof Error ? error.message : String(error);
       this.outputChannel.appendLine(
         `Error updating repository state: ${errorMsg}`,
       );
-      // Clear state on failure? Maybe better to leave potentially stale state.
-      // this.files.clear();
-      // this.changelists.clear();
-      // this._onDidChange.fire();
+      // The previous state is kept; it may be stale but is internally consistent
+      if (isP4Error(error, "connectionRefused")) {
+        this.setOffline(true);
+      }
     } finally {
+      this.updateCancellation?.dispose();
+      this.updateCancellation = undefined;
       this.isUpdating = false;
+      if (this.pendingFileUpdates.size > 0) {
+        const uris = Array.from(this.pendingFileUpdates.values());
+        this.pendingFileUpdates.clear();
+        void this.refreshFiles(uris);
+      }
+    }
+  }
+
+  /**
+   * Updates the state of just the given files with `p4 fstat`, e.g. after they
+   * changed on disk or were opened, reverted or moved. Files fstat reports as
+   * not opened are dropped unless they are known from `p4 status` or a shelf,
+   * which only a full update can re-evaluate.
+   * @param uris Local files to re-query.
+   * @returns A promise that resolves once the state is updated; it never rejects.
+   */
+  public refreshFiles(uris: vscode.Uri[]): Promise<void> {
+    this.fileUpdates = this.fileUpdates.then(() => this.applyFileUpdates(uris));
+    return this.fileUpdates;
+  }
+
+  private async applyFileUpdates(uris: vscode.Uri[]): Promise<void> {
+    if (uris.length === 0) {
+      return;
+    }
+    if (this.isUpdating) {
+      uris.forEach((uri) => this.pendingFileUpdates.set(uri.toString(), uri));
+      return;
+    }
+    if (uris.length > MAX_INCREMENTAL_FILES) {
+      return this.updateState();
+    }
+
+    const records = new Map<string, any>(); // Key: uri.toString()
+    try {
+      for (const batch of chunk(uris, getMaxFilesPerCommand())) {
+        await this.perforceService.execute(
+          "fstat",
+          ["-Ol", ...batch.map((uri) => uri.fsPath)],
+          this.p4Options,
+          true,
+          undefined,
+          {
+            // Runs on every save; a login prompt here would come out of nowhere
+            priority: "background",
+            interactive: false,
+            onRecord: (record) => {
+              if (record.clientFile) {
+                records.set(
+                  vscode.Uri.file(record.clientFile).toString(),
+                  record,
+                );
+              }
+            },
+          },
+        );
+      }
+      this.setOffline(false);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(
+        `Error updating the state of ${uris.length} file(s): ${errorMsg}`,
+      );
+      if (isP4Error(error, "connectionRefused")) {
+        this.setOffline(true);
+      }
+      return;
+    }
+
+    const files = new Map(this.files);
+    const changelists = new Map<string, P4Changelist>();
+    this.changelists.forEach((change, id) => {
+      changelists.set(id, { ...change, files: [...change.files] });
+    });
+    const detach = (file: P4File) => {
+      const change = changelists.get(file.changelist);
+      if (change) {
+        change.files = change.files.filter(
+          (f) => f.uri.toString() !== file.uri.toString(),
+        );
+      }
+    };
+
+    for (const uri of uris) {
+      const key = uri.toString();
+      const existing = files.get(key);
+      const record = records.get(key);
+      const opened = record?.action
+        ? this.parseOpenedRecord(record)
+        : undefined;
+
+      if (!opened) {
+        // Shelved and `p4 status` entries aren't in fstat's opened state; leave them to the next full update
+        if (
+          existing &&
+          !existing.isShelved &&
+          !existing.action?.endsWith("-local")
+        ) {
+          detach(existing);
+          files.delete(key);
+        }
+        continue;
+      }
+
+      Object.assign(opened, parseFstatRecord(record));
+      opened.uri = uri;
+      opened.localPath = uri.fsPath;
+      opened.isShelved = existing?.isShelved;
+      opened.shelvedInChangelist = existing?.shelvedInChangelist;
+      if (existing) {
+        detach(existing);
+      }
+      files.set(key, opened);
+
+      let change = changelists.get(opened.changelist);
+      if (!change) {
+        change = {
+          id: opened.changelist,
+          description: `Changelist ${opened.changelist}`,
+          user: this.p4Options.P4USER ?? "unknown",
+          client: this.p4Options.P4CLIENT ?? "unknown",
+          status: "pending",
+          files: [],
+          date: new Date(),
+        };
+        changelists.set(change.id, change);
+      }
+      change.files.push(opened);
+    }
+
+    this.outputChannel.appendLine(
+      `Updated the state of ${uris.length} file(s) with \`p4 fstat\`.`,
+    );
+    this.commit(files, changelists);
+  }
+
+  // Swaps in a new state and tells listeners what changed, if anything (or
+  // regardless, with force, for listeners that show whether the state is stale)
+  private commit(
+    files: Map<string, P4File>,
+    changelists: Map<string, P4Changelist>,
+    force = false,
+  ): void {
+    const delta = diffState(this.files, files, this.changelists, changelists);
+    this.files = files;
+    this.changelists = changelists;
+    if (force || !isEmptyDelta(delta)) {
+      this._onDidChange.fire(delta);
     }
   }
 
+  /**
+   * True while the state is a snapshot from an earlier session, loaded with
+   * loadSnapshot and not yet replaced by a full update.
+   */
+  public get stale(): boolean {
+    return this._stale;
+  }
+
+  /**
+   * Shows the state saved in an earlier session until the first full update
+   * replaces it. Ignored once there is state of this session's own.
+   * @param files Files as deserializeState returns them.
+   * @param changelists Changelists as deserializeState returns them.
+   */
+  public loadSnapshot(
+    files: Map<string, P4File>,
+    changelists: Map<string, P4Changelist>,
+  ): void {
+    if (this.files.size > 0 || this.changelists.size > 0) {
+      return;
+    }
+    // The saved default changelist keeps its files; ensureDefaultChangelist would empty it
+    if (!changelists.has("default")) {
+      this.ensureDefaultChangelist(changelists);
+    }
+    this._stale = true;
+    this.outputChannel.appendLine(
+      `Showing saved state until the first update. Files: ${files.size}, Changes: ${changelists.size}`,
+    );
+    this.commit(files, changelists, true);
+  }
+
+  /** Drops a loaded snapshot, e.g. one found to be of another server or client. */
+  public discardSnapshot(): void {
+    if (!this._stale) {
+      return;
+    }
+    this._stale = false;
+    const changelists = new Map<string, P4Changelist>();
+    this.ensureDefaultChangelist(changelists);
+    this.commit(new Map(), changelists, true);
+  }
+
+  /** True while the server is unreachable; the last known state is kept meanwhile. */
+  public get offline(): boolean {
+    return this._offline;
+  }
+
+  /**
+   * Records whether the server is reachable. Set by updateState, and by callers
+   * whose own commands find the server unreachable.
+   */
+  public setOffline(offline: boolean): void {
+    if (this._offline === offline) {
+      return;
+    }
+    this._offline = offline;
+    this.outputChannel.appendLine(
+      offline
+        ? "Perforce server unreachable; working offline with the last known state."
+        : "Perforce server reachable again.",
+    );
+    this._onDidChangeOffline.fire(offline);
+  }
+
   /**
    * Retrieves the stored state for a specific file URI.
    * @param uri The vscode.Uri of the file.
@@ -305,10 +775,83 @@ export class RepositoryStateManager implements vscode.Disposable {
     return Array.from(this.files.values());
   }
 
-  public getAllChangelists(): P4Changelist[] {
-    // TODO: Sort according to settings (ascending/descending)
+  /**
+   * Other workspaces' opens of a file: from the state for files opened here,
+   * otherwise from the last checkOtherOpens.
+   */
+  public getOtherOpens(uri: vscode.Uri): P4OtherOpen[] {
+    return (
+      this.files.get(uri.toString())?.otherOpens ??
+      this.otherOpens.get(uri.toString()) ??
+      []
+    );
+  }
+
+  /**
+   * Looks up who else has a file open, for files not opened here (opened files
+   * get this with every update). Uses `p4 fstat`.
+   * @param uri A local file, e.g. the one in the active editor.
+   */
+  public async checkOtherOpens(uri: vscode.Uri): Promise<void> {
+    let opens: P4OtherOpen[] = [];
+    try {
+      const result = await this.perforceService.execute(
+        "fstat",
+        [uri.fsPath],
+        this.p4Options,
+        true,
+        undefined,
+        { priority: "background", interactive: false }, // Runs on every editor switch
+      );
+      const record = result.parsedOutput?.[0];
+      opens = record ? (parseFstatRecord(record).otherOpens ?? []) : [];
+    } catch (error) {
+      // Not in the depot, or the server is unreachable; either way nothing to show
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(
+        `Could not look up other opens of ${uri.fsPath}: ${errorMsg}`,
+      );
+    }
+    const key = uri.toString();
+    const previous = this.otherOpens.get(key) ?? [];
+    if (opens.length > 0) {
+      this.otherOpens.set(key, opens);
+    } else {
+      this.otherOpens.delete(key);
+    }
+    if (JSON.stringify(previous) !== JSON.stringify(opens)) {
+      this._onDidChangeOtherOpens.fire(uri);
+    }
+  }
+
+  /**
+   * Drops looked-up opens except for the given files, so only files still shown
+   * in an editor are kept.
+   */
+  public forgetOtherOpens(keep: vscode.Uri[]): void {
+    const kept = new Set(keep.map((uri) => uri.toString()));
+    for (const [key] of Array.from(this.otherOpens)) {
+      if (!kept.has(key)) {
+        this.otherOpens.delete(key);
+        this._onDidChangeOtherOpens.fire(vscode.Uri.parse(key));
+      }
+    }
+  }
+
+  /** Opened files whose have revision is behind the head revision. */
+  public getOutOfDateFiles(): P4File[] {
+    return this.getAllFiles().filter((file) => file.outOfDate);
+  }
+
+  /**
+   * All known changelists, numbered ones sorted by number and the default last.
+   * @param order Direction to sort numbered changelists in (`perforce.changelistOrder`).
+   */
+  public getAllChangelists(
+    order: "ascending" | "descending" = "descending",
+  ): P4Changelist[] {
     const changes = Array.from(this.changelists.values());
-    // Example sorting (descending, default last)
+    const direction = order === "ascending" ? 1 : -1;
     changes.sort((a, b) => {
       if (a.id === "default") {
         return 1;
@@ -316,15 +859,16 @@ export class RepositoryStateManager implements vscode.Disposable {
       if (b.id === "default") {
         return -1;
       }
-      return parseInt(b.id, 10) - parseInt(a.id, 10);
+      return direction * (parseInt(a.id, 10) - parseInt(b.id, 10));
     });
     return changes;
   }
 
-  private ensureDefaultChangelist(): void {
-    // Remove p4Options argument
-    if (!this.changelists.has("default")) {
-      this.changelists.set("default", {
+  private ensureDefaultChangelist(
+    changelists: Map<string, P4Changelist>,
+  ): void {
+    if (!changelists.has("default")) {
+      changelists.set("default", {
         id: "default",
         description: "Default changelist",
         user: this.p4Options.P4USER ?? "unknown", // Use stored options
@@ -335,7 +879,7 @@ export class RepositoryStateManager implements vscode.Disposable {
       });
     } else {
       // Ensure the default changelist's file list is reset if we aren't doing full clears
-      const defaultChange = this.changelists.get("default");
+      const defaultChange = changelists.get("default");
       if (defaultChange) {
         defaultChange.files = [];
       }
@@ -382,6 +926,51 @@ export class RepositoryStateManager implements vscode.Disposable {
 
   // --- Parsing Methods ---
 
+  /** Converts a single `p4 opened -G` record to a P4File, or undefined if it is incomplete. */
+  private parseOpenedRecord(record: any): P4File | undefined {
+    if (
+      typeof record !== "object" ||
+      record === null ||
+      !record.depotFile ||
+      !record.action
+    ) {
+      this.outputChannel.appendLine(
+        `Warning: Skipping invalid/incomplete opened record: ${JSON.stringify(record)}`,
+      );
+      return undefined;
+    }
+
+    const clientPath = record.clientFile;
+    if (!clientPath) {
+      this.outputChannel.appendLine(
+        `Warning: Skipping opened record missing clientFile: ${record.depotFile}`,
+      );
+      return undefined;
+    }
+
+    // Use depotPath for the placeholder URI path uniqueness, clientPath is stored separately
+    const placeholderUri = vscode.Uri.parse(`perforce:${record.depotFile}`);
+
+    const file: P4File = {
+      uri: placeholderUri, // Use placeholder URI
+      depotPath: record.depotFile,
+      clientPath: clientPath, // Store clientPath
+      // localPath: will be filled later
+      status: record.action,
+      action: record.action,
+      changelist: record.change ?? "default",
+      revision: record.rev ? `#${record.rev}` : undefined,
+      headRevision: record.headRev ? `#${record.headRev}` : undefined,
+      haveRevision: record.haveRev ? `#${record.haveRev}` : undefined,
+      type: record.type,
+      user: record.user, // Add user if available
+      client: record.client, // Add client if available
+      // diffStatus needs 'p4 status' or 'p4 diff -sr'
+      // isShelved needs 'p4 describe -S' or similar
+    };
+    return file;
+  }
+
   private parseOpenedOutput(p4Data: any[]): P4File[] {
     this.outputChannel.appendLine(
       `Parsing tagged \`p4 opened\` output (${p4Data?.length ?? 0} items)...`,
@@ -396,47 +985,10 @@ export class RepositoryStateManager implements vscode.Disposable {
     }
 
     for (const record of p4Data) {
-      if (
-        typeof record !== "object" ||
-        record === null ||
-        !record.depotFile ||
-        !record.action
-      ) {
-        this.outputChannel.appendLine(
-          `Warning: Skipping invalid/incomplete opened record: ${JSON.stringify(record)}`,
-        );
-        continue;
-      }
-
-      const clientPath = record.clientFile;
-      if (!clientPath) {
-        this.outputChannel.appendLine(
-          `Warning: Skipping opened record missing clientFile: ${record.depotFile}`,
-        );
-        continue;
+      const file = this.parseOpenedRecord(record);
+      if (file) {
+        files.push(file);
       }
-
-      // Use depotPath for the placeholder URI path uniqueness, clientPath is stored separately
-      const placeholderUri = vscode.Uri.parse(`perforce:${record.depotFile}`);
-
-      const file: P4File = {
-        uri: placeholderUri, // Use placeholder URI
-        depotPath: record.depotFile,
-        clientPath: clientPath, // Store clientPath
-        // localPath: will be filled later
-        status: record.action,
-        action: record.action,
-        changelist: record.change ?? "default",
-        revision: record.rev ? `#${record.rev}` : undefined,
-        headRevision: record.headRev ? `#${record.headRev}` : undefined,
-        haveRevision: record.haveRev ? `#${record.haveRev}` : undefined,
-        type: record.type,
-        user: record.user, // Add user if available
-        client: record.client, // Add client if available
-        // diffStatus needs 'p4 status' or 'p4 diff -sr'
-        // isShelved needs 'p4 describe -S' or similar
-      };
-      files.push(file);
     }
     this.outputChannel.appendLine(
       `Parsed ${files.length} files from \`p4 opened\`.`,
@@ -733,8 +1285,11 @@ export class RepositoryStateManager implements vscode.Disposable {
     return currentFileKeys;
   }
 
-  /** Updates changelist map with new data. Returns set of current pending changelist keys. */
-  private updateChangelists(newChanges: P4Changelist[]): Set<string> {
+  /** Updates the given changelist map with new data. Returns set of current pending changelist keys. */
+  private updateChangelists(
+    newChanges: P4Changelist[],
+    changelists: Map<string, P4Changelist>,
+  ): Set<string> {
     this.outputChannel.appendLine(
       `Updating changelist map with ${newChanges.length} pending changelists.`,
     );
@@ -742,7 +1297,7 @@ export class RepositoryStateManager implements vscode.Disposable {
 
     newChanges.forEach((change) => {
       currentChangeKeys.add(change.id);
-      const existing = this.changelists.get(change.id);
+      const existing = changelists.get(change.id);
       if (existing) {
         // Merge properties, PRESERVING THE EMPTY existing.files array
         existing.description = change.description;
@@ -757,11 +1312,11 @@ export class RepositoryStateManager implements vscode.Disposable {
         existing.files = [];
       } else {
         // Add the new changelist (it already has an empty files list from parseChangesOutput)
-        this.changelists.set(change.id, change);
+        changelists.set(change.id, change);
       }
     });
     this.outputChannel.appendLine(
-      `Changelist map size after update: ${this.changelists.size}`,
+      `Changelist map size after update: ${changelists.size}`,
     );
     return currentChangeKeys;
   }
@@ -876,15 +1431,85 @@ export class RepositoryStateManager implements vscode.Disposable {
     );
   }
 
+  /**
+   * Adds what `p4 fstat -Ol` knows about opened and reconciled files: head and
+   * have revisions, head action, other workspaces' opens and locks, resolve
+   * state, move source and digest. Shelved-only and local-only entries are skipped.
+   * @param files The map being built by updateState, keyed by uri string.
+   * @param token Cancels the pending fstat batches.
+   */
+  private async fetchFileDetails(
+    files: Map<string, P4File>,
+    token?: vscode.CancellationToken,
+  ): Promise<void> {
+    const byDepotPath = new Map<string, P4File[]>();
+    files.forEach((file) => {
+      if (file.depotPath && file.uri.scheme !== "perforce-shelved") {
+        byDepotPath.set(file.depotPath, [
+          ...(byDepotPath.get(file.depotPath) ?? []),
+          file,
+        ]);
+      }
+    });
+    if (byDepotPath.size === 0) {
+      return;
+    }
+
+    this.outputChannel.appendLine(
+      `Executing \`p4 fstat -Ol -G\` for ${byDepotPath.size} file(s)...`,
+    );
+    try {
+      for (const batch of chunk(
+        Array.from(byDepotPath.keys()),
+        getMaxFilesPerCommand(),
+      )) {
+        await this.perforceService.execute(
+          "fstat",
+          ["-Ol", ...batch],
+          this.p4Options,
+          true,
+          undefined,
+          {
+            priority: "background",
+            token,
+            onRecord: (record) => {
+              const details = parseFstatRecord(record);
+              byDepotPath
+                .get(record.depotFile)
+                ?.forEach((file) => Object.assign(file, details));
+            },
+          },
+        );
+      }
+    } catch (error) {
+      if (
+        isP4Error(error, "cancelled") ||
+        isP4Error(error, "connectionRefused")
+      ) {
+        throw error;
+      }
+      // The state is still usable without the details
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(
+        `Could not fetch file details with \`p4 fstat\`: ${errorMsg}`,
+      );
+    }
+  }
+
   /**
    * Resolves placeholder URIs ('perforce:', 'perforce-shelved:') to 'file:' URIs
    * by querying the local path for each unique clientPath using `p4 where` or similar.
    * Updates file.uri and file.localPath on success.
-   * Removes files from the state if their clientPath cannot be resolved locally.
+   * Removes files from the map if their clientPath cannot be resolved locally.
+   * @param files The map being built by updateState, keyed by uri string.
+   * @param token Cancels the pending `p4 where` lookups.
    */
-  private async resolveFileUris(): Promise<void> {
+  private async resolveFileUris(
+    files: Map<string, P4File>,
+    token?: vscode.CancellationToken,
+  ): Promise<void> {
     this.outputChannel.appendLine("Resolving file URIs...");
-    const filesToResolve = Array.from(this.files.values());
+    const filesToResolve = Array.from(files.values());
     const uniqueClientPaths = [
       ...new Set(
         filesToResolve
@@ -905,13 +1530,18 @@ export class RepositoryStateManager implements vscode.Disposable {
     // Resolve paths in parallel
     const resolutionPromises = uniqueClientPaths.map(async (clientPath) => {
       try {
-        // Assuming getLocalPath exists and handles mapping client->local
+        // Mapped from the client view, loaded once; `p4 where` only if that fails
         const localPath = await this.perforceService.getLocalPath(
           clientPath,
           this.p4Options,
+          "background", // Concurrency is capped by PerforceService
+          token,
         );
         return { clientPath, localPath }; // localPath can be null if mapping fails
       } catch (error: any) {
+        if (isP4Error(error, "cancelled")) {
+          throw error; // Abandon the whole update rather than dropping files
+        }
         this.outputChannel.appendLine(
           `Error resolving local path for "${clientPath}": ${error.message}`,
         );
@@ -930,7 +1560,7 @@ export class RepositoryStateManager implements vscode.Disposable {
     const resolvedFileKeys = new Set<string>();
     const unresolvedFiles: string[] = []; // Store URIs of files to remove
 
-    // Iterate through the original list, as `this.files` map might change during iteration if we remove items
+    // Iterate through the original list, as `files` map might change during iteration if we remove items
     for (const file of filesToResolve) {
       const key = file.uri.toString(); // The placeholder URI string
       if (!file.clientPath || file.clientPath.length === 0) {
@@ -968,8 +1598,8 @@ export class RepositoryStateManager implements vscode.Disposable {
 
           // If the URI changed, we need to update the map key
           if (key !== newKey) {
-            this.files.delete(key); // Remove old placeholder key
-            this.files.set(newKey, file); // Add with new file: URI key
+            files.delete(key); // Remove old placeholder key
+            files.set(newKey, file); // Add with new file: URI key
             resolvedFileKeys.add(newKey);
           } else {
             // This case should be rare (placeholder happened to be identical to file: URI)
@@ -991,16 +1621,19 @@ export class RepositoryStateManager implements vscode.Disposable {
 
     // Remove files that couldn't be resolved or caused errors
     unresolvedFiles.forEach((key) => {
-      this.files.delete(key);
+      files.delete(key);
     });
 
     this.outputChannel.appendLine(
-      `Finished resolving URIs. Final file count: ${this.files.size}.`,
+      `Finished resolving URIs. Final file count: ${files.size}.`,
     );
   }
 
   dispose() {
+    this.updateCancellation?.cancel(); // Don't leave p4 processes running for a closed workspace
     this._onDidChange.dispose();
+    this._onDidChangeOffline.dispose();
+    this._onDidChangeOtherOpens.dispose();
     this.files.clear();
     this.changelists.clear();
   }
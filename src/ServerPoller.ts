@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+
+/**
+ * Probes the server on an interval and calls back when the probe's fingerprint
+ * changes, so work done outside VS Code (P4V, the command line, teammates) shows
+ * up without a manual refresh. Polling pauses while the window is unfocused,
+ * unless configured otherwise, and catches up when focus returns. It can also
+ * be paused outright, e.g. while only the user can fix what makes probes fail.
+ */
+export class ServerPoller implements vscode.Disposable {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private fingerprint: string | undefined; // Of the last successful probe
+  private lastPoll = 0; // Time of the last probe, successful or not
+  private polling = false;
+  private started = false;
+  private paused = false;
+  private intervalMs = 0;
+  private whenUnfocused = false;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /**
+   * @param probe Returns a fingerprint of the server state, or undefined when
+   *   there is nothing to compare (e.g. the server is unreachable).
+   * @param onChange Called when the fingerprint differs from the last one.
+   */
+  constructor(
+    private readonly probe: () => Promise<string | undefined>,
+    private readonly onChange: () => Promise<void>,
+  ) {
+    vscode.window.onDidChangeWindowState(
+      this.onWindowStateChange,
+      this,
+      this.disposables,
+    );
+  }
+
+  /**
+   * Sets how often to poll; takes effect right away.
+   * @param intervalMs Time between probes; 0 stops polling.
+   * @param whenUnfocused Whether to keep polling while the window is unfocused.
+   */
+  public configure(intervalMs: number, whenUnfocused: boolean): void {
+    this.intervalMs = intervalMs;
+    this.whenUnfocused = whenUnfocused;
+    this.schedule();
+  }
+
+  /** Starts polling, taking the current fingerprint as the baseline. */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.schedule(); // Nothing polled yet, so this probes at once
+  }
+
+  /** Stops polling until resume is called. */
+  public pause(): void {
+    this.paused = true;
+    this.schedule();
+  }
+
+  /** Polls again, at once if a poll is overdue. */
+  public resume(): void {
+    if (this.paused) {
+      this.paused = false;
+      this.schedule();
+    }
+  }
+
+  private get active(): boolean {
+    return (
+      this.started &&
+      !this.paused &&
+      this.intervalMs > 0 &&
+      (this.whenUnfocused || vscode.window.state.focused)
+    );
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (!this.active || this.polling) {
+      return; // A running poll schedules the next one when it ends
+    }
+    const delay = Math.max(0, this.lastPoll + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.poll();
+    }, delay);
+  }
+
+  private onWindowStateChange(): void {
+    // Coming back after a long while polls at once; leaving stops the timer
+    this.schedule();
+  }
+
+  private async poll(): Promise<void> {
+    this.polling = true;
+    try {
+      const fingerprint = await this.probe();
+      if (fingerprint === undefined) {
+        return;
+      }
+      const changed =
+        this.fingerprint !== undefined && fingerprint !== this.fingerprint;
+      this.fingerprint = fingerprint;
+      if (changed) {
+        await this.onChange();
+      }
+    } catch {
+      // The probe logs its errors; try again next time
+    } finally {
+      this.lastPoll = Date.now();
+      this.polling = false;
+      this.schedule();
+    }
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.started = false;
+    this.disposables.forEach((d) => d.dispose());
+  }
+}
@@ -0,0 +1,100 @@
+import * as vscode from "vscode";
+import { P4Changelist, P4File } from "./RepositoryStateManager";
+
+// How files outside the VS Code workspace show, as in `perforce.hideNonWorkspaceFiles`
+export type NonWorkspaceFileMode =
+  | "show all files"
+  | "hide changelists"
+  | "hide changelists, hide files in default changelist"
+  | "hide non workspace files";
+
+// The settings that decide which changelists and files the SCM view shows
+export interface ChangelistViewSettings {
+  hideShelvedFiles: boolean;
+  hideEmptyChangelists: boolean;
+  changelistOrder: "ascending" | "descending";
+  ignoredChangelistPrefix: string;
+  hideNonWorkspaceFiles: NonWorkspaceFileMode;
+}
+
+// A changelist as the view shows it, with only its visible files
+export interface ChangelistGroupContent {
+  change: P4Changelist;
+  files: P4File[];
+}
+
+/** Reads the view settings for a workspace. */
+export function getChangelistViewSettings(
+  scope: vscode.Uri,
+): ChangelistViewSettings {
+  const config = vscode.workspace.getConfiguration("perforce", scope);
+  return {
+    hideShelvedFiles: config.get<boolean>("hideShelvedFiles", false),
+    hideEmptyChangelists: config.get<boolean>("hideEmptyChangelists", false),
+    changelistOrder:
+      config.get<string>("changelistOrder") === "ascending"
+        ? "ascending"
+        : "descending",
+    ignoredChangelistPrefix: config.get<string>("ignoredChangelistPrefix", ""),
+    hideNonWorkspaceFiles: config.get<NonWorkspaceFileMode>(
+      "hideNonWorkspaceFiles",
+      "show all files",
+    ),
+  };
+}
+
+/**
+ * Picks the changelists and files to show, in the order given. The default
+ * changelist is always shown; other changelists are dropped when their
+ * description starts with the ignored prefix, when they have only files outside
+ * the workspace (if so configured) or when nothing in them is left to show.
+ * @param changelists Changelists in display order.
+ * @param files All known files.
+ * @param settings View settings.
+ * @param isInWorkspace Whether a file is inside the VS Code workspace.
+ */
+export function shapeChangelists(
+  changelists: P4Changelist[],
+  files: P4File[],
+  settings: ChangelistViewSettings,
+  isInWorkspace: (file: P4File) => boolean,
+): ChangelistGroupContent[] {
+  const mode = settings.hideNonWorkspaceFiles;
+  const groups: ChangelistGroupContent[] = [];
+
+  for (const change of changelists) {
+    const isDefault = change.id === "default";
+    if (
+      !isDefault &&
+      settings.ignoredChangelistPrefix &&
+      change.description.startsWith(settings.ignoredChangelistPrefix)
+    ) {
+      continue;
+    }
+
+    let shown = files.filter(
+      (file) =>
+        file.changelist === change.id &&
+        !(settings.hideShelvedFiles && file.isShelved),
+    );
+    if (mode !== "show all files") {
+      const inWorkspace = shown.filter(isInWorkspace);
+      const onlyOutside = shown.length > 0 && inWorkspace.length === 0;
+      if (mode === "hide non workspace files") {
+        shown = inWorkspace;
+      } else if (isDefault) {
+        if (mode === "hide changelists, hide files in default changelist") {
+          shown = inWorkspace;
+        }
+      } else if (onlyOutside) {
+        continue;
+      }
+    }
+
+    if (!isDefault && settings.hideEmptyChangelists && shown.length === 0) {
+      continue;
+    }
+    groups.push({ change, files: shown });
+  }
+  return groups;
+}
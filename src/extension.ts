@@ -1,10 +1,18 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
+import * as path from "path";
 import * as vscode from "vscode";
-import { PerforceService } from "./PerforceService";
-import { getP4OptionsFromConfig } from "./p4/p4Utils";
+import { isReadOnlyCommand, PerforceService } from "./PerforceService";
+import { getP4OptionsFromConfig, getPlaintextPassword } from "./p4/p4Utils";
+import { credentialTarget, P4CredentialStore } from "./p4/credentials";
+import { SessionMonitor } from "./p4/sessionMonitor";
+import { p4ConfigResolver, parseP4SetOutput } from "./p4/p4Config";
 // import { RepositoryStateManager } from './RepositoryStateManager'; // Manager is now part of SCMProvider
 import { PerforceSCMProvider } from "./PerforceSCMProvider";
+import {
+  PerforceContentProvider,
+  PERFORCE_SCHEME,
+} from "./PerforceContentProvider";
 // Import necessary command wrappers
 import {
   p4edit,
@@ -24,7 +32,23 @@ import {
 import { p4shelve, p4unshelve } from "./p4/shelveCommands";
 import { p4fixJob } from "./p4/jobCommands";
 import { p4annotate, p4filelog } from "./p4/historyCommands";
-import { P4JobSummary, P4ChangeSummary, P4Annotation } from "./p4/p4Types"; // Import new types
+import {
+  P4JobSummary,
+  P4ChangeSummary,
+  P4Annotation,
+  P4BatchResult,
+  P4FileFailure,
+  P4Options,
+} from "./p4/p4Types"; // Import new types
+import { LineChange } from "./quickDiff";
+import { isP4Error, P4Error, parseSslFingerprint } from "./p4/p4Errors";
+import { p4trust } from "./p4/trustCommands";
+import {
+  CommandLogProvider,
+  COMMAND_LOG_VIEW_ID,
+  entryFromNode,
+  formatCommandLine,
+} from "./CommandLogProvider";
 
 let perforceService: PerforceService; // Shared service
 // Map to store active SCM Providers, keyed by root URI string
@@ -32,6 +56,9 @@ const scmProviders = new Map<string, PerforceSCMProvider>();
 let outputChannel: vscode.OutputChannel;
 let extensionContext: vscode.ExtensionContext; // Store context for disposables
 let p4StatusBarItem: vscode.StatusBarItem;
+let credentialStore: P4CredentialStore; // Passwords for p4 login, in the OS keychain
+let sessionMonitor: SessionMonitor | undefined; // Warns before tickets expire
+const blockedServers = new Set<string>(); // P4PORTs whose SSL fingerprint changed, warned about once
 
 // Annotation variables
 let p4AnnotationDecorationType: vscode.TextEditorDecorationType;
@@ -50,9 +77,32 @@ export async function activate(context: vscode.ExtensionContext) {
   // Initialize shared Perforce service
   perforceService = new PerforceService(outputChannel);
   context.subscriptions.push(perforceService);
+  credentialStore = new P4CredentialStore(context.secrets);
+  perforceService.setRecoveryHandler("authExpired", recoverExpiredSession);
+  perforceService.setRecoveryHandler("sslUntrusted", trustServer);
+  perforceService.setRecoveryHandler(
+    "sslFingerprintChanged",
+    blockChangedFingerprint,
+  );
 
   outputChannel.appendLine("Shared Perforce service initialized.");
 
+  // Serve depot file revisions (perforce: URIs) for diffs
+  const contentProvider = new PerforceContentProvider(
+    perforceService,
+    outputChannel,
+  );
+  context.subscriptions.push(
+    contentProvider,
+    vscode.workspace.registerTextDocumentContentProvider(
+      PERFORCE_SCHEME,
+      contentProvider,
+    ),
+  );
+
+  // Recent p4 commands with timings and output, for diagnosing slow or failing operations
+  registerCommandLogView(context);
+
   // Determine activation mode
   const activationMode = vscode.workspace
     .getConfiguration("perforce")
@@ -76,6 +126,20 @@ export async function activate(context: vscode.ExtensionContext) {
       return; // Do nothing further
   }
 
+  watchP4ConfigFiles(context);
+  void migratePlaintextPasswords();
+
+  sessionMonitor = new SessionMonitor(
+    perforceService.execute.bind(perforceService),
+    () =>
+      Array.from(scmProviders.values()).map((provider) =>
+        getP4OptionsFromConfig(provider.rootUri),
+      ),
+    (p4Options, expiry) => void warnSessionExpiring(p4Options, expiry),
+  );
+  context.subscriptions.push(sessionMonitor);
+  sessionMonitor.start();
+
   // Listen for workspace folder changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeWorkspaceFolders(handleWorkspaceFolderChange),
@@ -107,73 +171,84 @@ export async function activate(context: vscode.ExtensionContext) {
       // Use options from the first provider for context (e.g., P4PORT, P4USER might be relevant)
       const firstProvider = scmProviders.values().next()
         .value as PerforceSCMProvider;
-      const p4Options = getP4OptionsFromConfig(firstProvider.rootUri);
-
-      const password = await vscode.window.showInputBox({
-        prompt: "Enter Perforce Password",
-        password: true,
-        ignoreFocusOut: true,
-        placeHolder: "Password for p4 login",
-      });
-
-      if (password === undefined) {
-        // Check for undefined (user cancelled) rather than just falsy
-        outputChannel.appendLine("Login cancelled by user.");
-        return;
-      }
-
-      vscode.window.setStatusBarMessage("Perforce: Logging in...", 2000);
-
-      try {
-        // Pass password via stdin
-        const result = await perforceService.execute(
-          "login",
-          [],
-          p4Options,
-          false,
-          password,
-        );
-        outputChannel.appendLine(`p4 login stdout: ${result.stdout}`);
-        outputChannel.appendLine(`p4 login stderr: ${result.stderr}`);
-
-        // Check stdout for success message (more reliable than lack of stderr)
-        if (
-          result.stdout.includes("User logged in") ||
-          result.stdout.includes("Ticket expires")
-        ) {
-          vscode.window.showInformationMessage("Perforce login successful.");
-        } else if (result.stderr) {
-          // Handle cases where login might succeed but have stderr warnings?
-          // For now, assume stderr means a problem potentially occurred
-          vscode.window.showWarningMessage(
-            `Perforce login may have issues: ${result.stderr}`,
-          );
-        } else {
-          // Unexpected output
-          vscode.window.showWarningMessage(
-            `Perforce login completed with unexpected output. Check Perforce output channel.`,
+      await runLoginCommand(() =>
+        loginToPerforce(
+          getP4OptionsFromConfig(firstProvider.rootUri),
+          firstProvider.rootUri,
+        ),
+      );
+    }),
+    vscode.commands.registerCommand(
+      "perforce.loginScm",
+      async (sourceControl?: vscode.SourceControl) => {
+        const provider = getProviderForSourceControl(sourceControl);
+        if (provider) {
+          await runLoginCommand(() =>
+            loginToPerforce(
+              getP4OptionsFromConfig(provider.rootUri),
+              provider.rootUri,
+            ),
           );
         }
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        outputChannel.appendLine(`Error during p4 login: ${errorMsg}`);
-        // Display a more user-friendly message based on common errors
-        if (errorMsg.includes("invalid password")) {
-          vscode.window.showErrorMessage(
-            "Perforce login failed: Invalid password.",
-          );
-        } else if (errorMsg.includes("connect to server failed")) {
+      },
+    ),
+    vscode.commands.registerCommand("perforce.logout", async () => {
+      for (const provider of scmProviders.values()) {
+        await logoutFromPerforce(provider.rootUri);
+      }
+      await updateStatusBarItem();
+    }),
+    vscode.commands.registerCommand(
+      "perforce.logoutScm",
+      async (sourceControl?: vscode.SourceControl) => {
+        const provider = getProviderForSourceControl(sourceControl);
+        if (provider) {
+          await logoutFromPerforce(provider.rootUri);
+          await updateStatusBarItem();
+        }
+      },
+    ),
+    // Registered once for all providers; each SCM view passes its own SourceControl
+    vscode.commands.registerCommand(
+      "perforce.Refresh",
+      async (sourceControl?: vscode.SourceControl) => {
+        const providers = sourceControl
+          ? [getProviderForSourceControl(sourceControl)]
+          : Array.from(scmProviders.values());
+        for (const provider of providers) {
+          await provider?.refresh();
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "perforce.CleanRefresh",
+      async (sourceControl?: vscode.SourceControl) => {
+        const providers = sourceControl
+          ? [getProviderForSourceControl(sourceControl)]
+          : Array.from(scmProviders.values());
+        for (const provider of providers) {
+          await provider?.cleanRefresh();
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "perforce.reconcileOfflineWork",
+      async (sourceControl?: vscode.SourceControl) => {
+        const provider = getProviderForSourceControl(sourceControl);
+        if (!provider) {
+          return;
+        }
+        try {
+          await provider.reconcileOfflineWork();
+        } catch (error) {
+          const errorMsg =
+            error instanceof Error ? error.message : String(error);
           vscode.window.showErrorMessage(
-            "Perforce login failed: Could not connect to server.",
+            `Failed to open offline work: ${errorMsg}`,
           );
-        } else {
-          vscode.window.showErrorMessage(`Perforce login failed: ${errorMsg}`);
         }
-      } finally {
-        // Always update status bar after login attempt
-        await updateStatusBarItem();
-      }
-    }),
+      },
+    ),
   );
 
   // Placeholder context for welcome views
@@ -289,6 +364,301 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 }
 
+/**
+ * Logs in to the server of a workspace. Tries the password kept in secret storage
+ * (or the deprecated plaintext setting) first, then prompts. A password that works
+ * is kept in secret storage; commands after that run on the ticket.
+ * @returns True if logged in.
+ */
+async function loginToPerforce(
+  p4Options: P4Options,
+  resourceUri?: vscode.Uri,
+): Promise<boolean> {
+  const { port, user } = credentialTarget(p4Options);
+
+  const tryLogin = async (password: string): Promise<boolean> => {
+    try {
+      // Password goes through stdin only, never the environment or the command line
+      const result = await perforceService.execute(
+        "login",
+        [],
+        p4Options,
+        false,
+        password,
+      );
+      outputChannel.appendLine(`p4 login stdout: ${result.stdout}`);
+      return true;
+    } catch (error) {
+      if (isP4Error(error, "authExpired")) {
+        return false; // Wrong password; the caller decides whether to ask again
+      }
+      throw error;
+    }
+  };
+
+  const remembered =
+    (await credentialStore.getPassword(p4Options)) ??
+    getPlaintextPassword(resourceUri);
+  if (remembered !== undefined) {
+    if (await tryLogin(remembered)) {
+      outputChannel.appendLine(
+        `Logged in as ${user}@${port} (saved password).`,
+      );
+      return true;
+    }
+    outputChannel.appendLine(
+      `Saved password for ${user}@${port} was rejected; asking for a new one.`,
+    );
+    await credentialStore.deletePassword(p4Options);
+  }
+
+  const password = await vscode.window.showInputBox({
+    prompt: `Enter Perforce password for ${user}@${port}`,
+    password: true,
+    ignoreFocusOut: true,
+    placeHolder: "Password for p4 login",
+  });
+  if (password === undefined) {
+    // Check for undefined (user cancelled) rather than just falsy
+    outputChannel.appendLine("Login cancelled by user.");
+    return false;
+  }
+
+  vscode.window.setStatusBarMessage("Perforce: Logging in...", 2000);
+  if (!(await tryLogin(password))) {
+    vscode.window.showErrorMessage("Perforce login failed: Invalid password.");
+    return false;
+  }
+  await credentialStore.storePassword(p4Options, password);
+  vscode.window.showInformationMessage(
+    `Logged in to Perforce as ${user}@${port}.`,
+  );
+  return true;
+}
+
+/**
+ * Logs out of the server of a workspace and forgets its saved password.
+ */
+async function logoutFromPerforce(rootUri: vscode.Uri): Promise<void> {
+  const p4Options = getP4OptionsFromConfig(rootUri);
+  const { port, user } = credentialTarget(p4Options);
+  try {
+    await perforceService.logout(p4Options);
+    vscode.window.showInformationMessage(
+      `Logged out of Perforce as ${user}@${port}.`,
+    );
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Perforce logout failed: ${errorMsg}`);
+  } finally {
+    // Forget the password even if the server could not be reached
+    await credentialStore.deletePassword(p4Options);
+  }
+}
+
+/**
+ * Offers to move a plaintext `perforce.password` setting into secret storage,
+ * clearing it from every settings scope it was found in.
+ */
+async function migratePlaintextPasswords(): Promise<void> {
+  const plaintext = Array.from(scmProviders.values())
+    .map((provider) => ({
+      rootUri: provider.rootUri,
+      password: getPlaintextPassword(provider.rootUri),
+    }))
+    .filter((entry) => entry.password !== undefined);
+  if (plaintext.length === 0) {
+    return;
+  }
+
+  const move = "Move to Secure Storage";
+  const choice = await vscode.window.showWarningMessage(
+    "Your Perforce password is stored in plain text in settings. Move it to the system keychain and remove it from settings?",
+    move,
+    "Not Now",
+  );
+  if (choice !== move) {
+    return;
+  }
+
+  for (const { rootUri, password } of plaintext) {
+    await credentialStore.storePassword(
+      getP4OptionsFromConfig(rootUri),
+      password as string,
+    );
+    const config = vscode.workspace.getConfiguration("perforce", rootUri);
+    const inspected = config.inspect<string>("password");
+    const scopes: [unknown, vscode.ConfigurationTarget][] = [
+      [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+      [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+      [
+        inspected?.workspaceFolderValue,
+        vscode.ConfigurationTarget.WorkspaceFolder,
+      ],
+    ];
+    for (const [value, target] of scopes) {
+      if (value !== undefined) {
+        await config.update("password", undefined, target);
+      }
+    }
+  }
+  outputChannel.appendLine(
+    `Moved ${plaintext.length} plaintext password setting(s) to secure storage.`,
+  );
+}
+
+// Runs a login, reporting connection and other unexpected errors, then refreshes the status bar
+async function runLoginCommand(login: () => Promise<boolean>): Promise<void> {
+  try {
+    await login();
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    outputChannel.appendLine(`Error during p4 login: ${errorMsg}`);
+    if (isP4Error(error, "connectionRefused")) {
+      vscode.window.showErrorMessage(
+        "Perforce login failed: Could not connect to server.",
+      );
+    } else {
+      vscode.window.showErrorMessage(`Perforce login failed: ${errorMsg}`);
+    }
+  } finally {
+    // Always update status bar after login attempt
+    await updateStatusBarItem();
+    void sessionMonitor?.check();
+  }
+}
+
+/**
+ * Auth recovery handler for PerforceService: called once when commands fail with an expired ticket.
+ * Logs in silently with a saved password, or asks first; the failed commands are then retried.
+ */
+async function recoverExpiredSession(p4Options: P4Options): Promise<boolean> {
+  const resourceUri = p4Options.cwd
+    ? vscode.Uri.file(p4Options.cwd)
+    : undefined;
+  const hasSavedPassword =
+    (await credentialStore.getPassword(p4Options)) !== undefined ||
+    getPlaintextPassword(resourceUri) !== undefined;
+  if (!hasSavedPassword) {
+    const { port, user } = credentialTarget(p4Options);
+    const logIn = "Log In";
+    const choice = await vscode.window.showWarningMessage(
+      `Your Perforce session for ${user}@${port} has expired. Log in to retry the commands that failed.`,
+      logIn,
+    );
+    if (choice !== logIn) {
+      return false;
+    }
+  }
+  try {
+    return await loginToPerforce(p4Options, resourceUri);
+  } finally {
+    void updateStatusBarItem();
+    void sessionMonitor?.check();
+  }
+}
+
+/**
+ * Recovery handler for ssl: servers whose fingerprint is not trusted yet: shows the
+ * fingerprint and runs `p4 trust -y` if the user accepts it.
+ */
+async function trustServer(
+  p4Options: P4Options,
+  error: P4Error,
+): Promise<boolean> {
+  const { port } = credentialTarget(p4Options);
+  const fingerprint = parseSslFingerprint(error.message);
+  if (!fingerprint) {
+    // Nothing the user could check, so nothing to offer
+    outputChannel.appendLine(
+      `Perforce server ${port} is not trusted yet, and its fingerprint could not be read from: ${error.message}`,
+    );
+    return false;
+  }
+  outputChannel.appendLine(
+    `Perforce server ${port} is not trusted yet; fingerprint ${fingerprint}`,
+  );
+  const trust = "Trust Server";
+  const choice = await vscode.window.showWarningMessage(
+    `The authenticity of the Perforce server ${port} can't be established.`,
+    {
+      modal: true,
+      detail: `Its SSL fingerprint is:\n${fingerprint}\n\nOnly trust it if this matches the fingerprint published by your Perforce administrator.`,
+    },
+    trust,
+  );
+  if (choice !== trust) {
+    return false;
+  }
+  await p4trust(
+    {
+      execute: perforceService.execute.bind(perforceService),
+      outputChannel,
+    },
+    fingerprint,
+    p4Options,
+  );
+  return true;
+}
+
+/**
+ * Recovery handler for ssl: servers whose fingerprint changed since it was trusted.
+ * Never recovers: the user has to verify the new key and run `p4 trust -r` themselves.
+ */
+async function blockChangedFingerprint(
+  p4Options: P4Options,
+  error: P4Error,
+): Promise<boolean> {
+  const { port } = credentialTarget(p4Options);
+  if (blockedServers.has(port)) {
+    return false; // Warned already; the commands keep failing until the key is verified
+  }
+  blockedServers.add(port);
+  const fingerprint = parseSslFingerprint(error.message) ?? "(not reported)";
+  outputChannel.appendLine(
+    `WARNING: the SSL fingerprint of Perforce server ${port} has changed to ${fingerprint}. Commands to it are blocked.`,
+  );
+  void vscode.window.showErrorMessage(
+    `The identity of the Perforce server ${port} has changed.`,
+    {
+      modal: true,
+      detail: `The server now presents the fingerprint:\n${fingerprint}\n\nSomeone may be intercepting your connection. Unless this is a scheduled key change, contact your Perforce administrator. Commands to this server will fail until you verify the new key and run 'p4 trust -r'.`,
+    },
+  );
+  return false;
+}
+
+// Warns that a ticket is about to expire, offering to log in again before commands start failing
+async function warnSessionExpiring(
+  p4Options: P4Options,
+  expiry: Date,
+): Promise<void> {
+  const { port, user } = credentialTarget(p4Options);
+  outputChannel.appendLine(
+    `Perforce ticket for ${user}@${port} expires at ${expiry.toLocaleString()}.`,
+  );
+  const logIn = "Log In Again";
+  const choice = await vscode.window.showWarningMessage(
+    `Your Perforce ticket for ${user}@${port} expires at ${expiry.toLocaleTimeString()}.`,
+    logIn,
+  );
+  if (choice === logIn) {
+    await runLoginCommand(() => loginToPerforce(p4Options));
+  }
+}
+
+// Finds the provider for an SCM title-bar command, or the only provider if none was passed
+function getProviderForSourceControl(
+  sourceControl?: vscode.SourceControl,
+): PerforceSCMProvider | undefined {
+  if (sourceControl?.rootUri) {
+    return scmProviders.get(sourceControl.rootUri.toString());
+  }
+  return scmProviders.size === 1
+    ? scmProviders.values().next().value
+    : undefined;
+}
+
 async function detectAndInitializePerforceProviders(): Promise<void> {
   outputChannel.appendLine("Detecting Perforce workspaces...");
   const potentialRoots = await detectPerforceWorkspaces();
@@ -312,89 +682,207 @@ async function detectAndInitializePerforceProviders(): Promise<void> {
 }
 
 /**
- * Placeholder function to detect Perforce workspaces.
- * Currently just returns all VS Code workspace folders.
- * TODO: Implement actual detection logic (e.g., run `p4 info`, check for .p4config).
+ * Loads the values p4 itself would use from P4ENVIRO (or the registry) and the
+ * environment, so P4CONFIG can be resolved the same way p4 resolves it.
+ */
+async function loadP4SetValues(): Promise<void> {
+  try {
+    const result = await perforceService.execute("set", ["-q"], {
+      p4Path: getP4OptionsFromConfig().p4Path,
+    });
+    p4ConfigResolver.setP4SetValues(parseP4SetOutput(result.stdout));
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    outputChannel.appendLine(`Could not run 'p4 set': ${errorMsg}`);
+  }
+}
+
+/**
+ * Finds the directories to check for a client within a workspace folder: every
+ * directory holding a P4CONFIG file, then the folder itself.
+ * A folder can hold several clients (e.g., a monorepo with one P4CONFIG per project).
  */
-async function detectPerforceWorkspaces(): Promise<vscode.Uri[]> {
+async function findClientCandidates(
+  folder: vscode.WorkspaceFolder,
+): Promise<vscode.Uri[]> {
+  const configFileName = p4ConfigResolver.configFileName;
+  const scanEnabled = vscode.workspace
+    .getConfiguration("perforce", folder.uri)
+    .get<boolean>("enableP4ConfigScanOnStartup", true);
+  if (!configFileName || !scanEnabled) {
+    return [folder.uri];
+  }
+
+  const configFiles = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, `**/${configFileName}`),
+  );
+  const candidates = new Map<string, vscode.Uri>();
+  for (const file of configFiles) {
+    const dir = vscode.Uri.file(path.dirname(file.fsPath));
+    candidates.set(dir.toString(), dir);
+  }
+  outputChannel.appendLine(
+    `  Found ${configFiles.length} ${configFileName} file(s) in ${folder.uri.fsPath}`,
+  );
+  // The folder may still be covered by a config file above it, or by the environment;
+  // it comes last so a client found in both keeps its config directory as the root
+  candidates.delete(folder.uri.toString());
+  return [...candidates.values(), folder.uri];
+}
+
+/**
+ * Warns once if the workspace has .p4config files that p4 will ignore because P4CONFIG is not set.
+ */
+async function warnIfP4ConfigUnset(): Promise<void> {
+  const config = vscode.workspace.getConfiguration("perforce");
+  if (
+    p4ConfigResolver.configFileName ||
+    !config.get<boolean>("warnOnMissingP4CONFIG", true)
+  ) {
+    return;
+  }
+  const found = await vscode.workspace.findFiles("**/.p4config", undefined, 1);
+  if (found.length === 0) {
+    return;
+  }
+  outputChannel.appendLine(
+    `Found ${found[0].fsPath}, but P4CONFIG is not set, so it will not be used.`,
+  );
+  const dontShowAgain = "Don't Show Again";
+  const choice = await vscode.window.showWarningMessage(
+    "A .p4config file was found in the workspace, but P4CONFIG is not set in your environment or with 'p4 set', so it will be ignored.",
+    dontShowAgain,
+  );
+  if (choice === dontShowAgain) {
+    await config.update(
+      "warnOnMissingP4CONFIG",
+      false,
+      vscode.ConfigurationTarget.Global,
+    );
+  }
+}
+
+/**
+ * Detects Perforce clients in the given workspace folders by running `p4 info`
+ * in each folder and in each directory that holds a P4CONFIG file.
+ * @param folders Folders to check; defaults to all open workspace folders.
+ * @returns One root per distinct client: the directory its settings were found in.
+ */
+async function detectPerforceWorkspaces(
+  folders: readonly vscode.WorkspaceFolder[] | undefined = vscode.workspace
+    .workspaceFolders,
+): Promise<vscode.Uri[]> {
   outputChannel.appendLine(
     "Running p4 info for workspace folders to detect client roots...",
   );
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders) {
+  if (!folders) {
     outputChannel.appendLine("No workspace folders open.");
     return [];
   }
 
-  // Use a Map to store unique client roots found, mapping root path string to workspace folder URI
+  await loadP4SetValues();
+  const configFileName = p4ConfigResolver.configFileName;
+  outputChannel.appendLine(
+    configFileName
+      ? `P4CONFIG is set to ${configFileName}`
+      : "P4CONFIG is not set; P4CONFIG files will not be detected.",
+  );
+  vscode.commands.executeCommand(
+    "setContext",
+    "perforce.activation.noP4Config",
+    !configFileName,
+  );
+  void warnIfP4ConfigUnset();
+
+  // One root per client, keyed by server and client name
   const detectedRoots = new Map<string, vscode.Uri>();
+  let foundOutOfRoot = false;
 
-  for (const folder of workspaceFolders) {
-    const folderUri = folder.uri;
-    outputChannel.appendLine(`Checking folder: ${folderUri.fsPath}`);
-    const p4Options = getP4OptionsFromConfig(folderUri);
+  for (const folder of folders) {
+    outputChannel.appendLine(`Checking folder: ${folder.uri.fsPath}`);
+    for (const candidateUri of await findClientCandidates(folder)) {
+      const p4Options = getP4OptionsFromConfig(candidateUri);
 
-    try {
-      // Execute 'p4 info' for this folder
-      // We don't need tagged output here, just parsing the text
-      const result = await perforceService.execute("info", [], p4Options);
-      const stdout = result.stdout;
-
-      // Basic parsing for Client root
-      const clientRootMatch = stdout.match(/^Client root:\s*(.*)$/im);
-      if (clientRootMatch && clientRootMatch[1]) {
-        const clientRootPath = clientRootMatch[1].trim();
-        outputChannel.appendLine(
-          `  Found client root: ${clientRootPath} for folder ${folderUri.fsPath}`,
-        );
+      try {
+        // We don't need tagged output here, just parsing the text
+        const result = await perforceService.execute("info", [], p4Options);
+        const stdout = result.stdout;
+
+        const clientName = stdout.match(/^Client name:\s*(.*)$/im)?.[1].trim();
+        const clientRoot = stdout.match(/^Client root:\s*(.*)$/im)?.[1].trim();
+        const serverAddress =
+          stdout.match(/^Server address:\s*(.*)$/im)?.[1].trim() ??
+          p4Options.P4PORT;
+        if (!clientName || !clientRoot || /^Client unknown/im.test(stdout)) {
+          outputChannel.appendLine(
+            `  Could not find a client in p4 info output for ${candidateUri.fsPath}.`,
+          );
+          continue;
+        }
+        if (!isWithinOrContains(clientRoot, candidateUri.fsPath)) {
+          outputChannel.appendLine(
+            `  Client ${clientName} (root ${clientRoot}) does not overlap ${candidateUri.fsPath}; skipping.`,
+          );
+          foundOutOfRoot = true;
+          continue;
+        }
 
-        // Check if we've already found this client root via another folder
-        if (!detectedRoots.has(clientRootPath)) {
-          // Store the workspace folder URI as the context for this client root
-          // We might refine this later to use the actual clientRootPath if needed,
-          // but the SCM provider needs a workspace folder URI.
-          detectedRoots.set(clientRootPath, folderUri);
+        const key = `${serverAddress}/${clientName}`;
+        if (!detectedRoots.has(key)) {
+          detectedRoots.set(key, candidateUri);
           outputChannel.appendLine(
-            `  Added unique root mapping: ${clientRootPath} -> ${folderUri.fsPath}`,
+            `  Found client ${clientName} (root ${clientRoot}) for ${candidateUri.fsPath}`,
           );
         } else {
           outputChannel.appendLine(
-            `  Client root ${clientRootPath} already mapped by another folder.`,
+            `  Client ${clientName} already mapped by ${detectedRoots.get(key)?.fsPath}.`,
+          );
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        if (isP4Error(error, "unknownClient")) {
+          outputChannel.appendLine(
+            `  ${candidateUri.fsPath} does not appear to be in a client workspace.`,
+          );
+        } else if (isP4Error(error, "sslUntrusted", "sslFingerprintChanged")) {
+          outputChannel.appendLine(
+            `  Cannot get info for ${candidateUri.fsPath}: the server's SSL fingerprint is not trusted.`,
+          );
+        } else if (isP4Error(error, "authExpired")) {
+          outputChannel.appendLine(
+            `  Cannot get info for ${candidateUri.fsPath}: Not logged in.`,
+          );
+          // TODO: Potentially trigger login UI?
+        } else {
+          outputChannel.appendLine(
+            `  Error running p4 info for ${candidateUri.fsPath}: ${errorMsg}`,
           );
         }
-      } else {
-        outputChannel.appendLine(
-          `  Could not find 'Client root:' in p4 info output for ${folderUri.fsPath}.`,
-        );
-      }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      // Log expected errors (like not logged in, not a client) differently?
-      if (
-        errorMsg.includes("client unknown") ||
-        errorMsg.includes("Client specification unknown")
-      ) {
-        outputChannel.appendLine(
-          `  Folder ${folderUri.fsPath} does not appear to be in a client workspace.`,
-        );
-      } else if (errorMsg.includes("not logged in")) {
-        outputChannel.appendLine(
-          `  Cannot get info for ${folderUri.fsPath}: Not logged in.`,
-        );
-        // TODO: Potentially trigger login UI?
-      } else {
-        outputChannel.appendLine(
-          `  Error running p4 info for ${folderUri.fsPath}: ${errorMsg}`,
-        );
       }
     }
   }
 
-  const uniqueFolderUris = Array.from(detectedRoots.values());
+  vscode.commands.executeCommand(
+    "setContext",
+    "perforce.activation.foundOutOfRoot",
+    foundOutOfRoot && detectedRoots.size === 0,
+  );
+  const uniqueRoots = Array.from(detectedRoots.values());
   outputChannel.appendLine(
-    `Detection finished. Found ${uniqueFolderUris.length} unique workspace roots containing Perforce clients.`,
+    `Detection finished. Found ${uniqueRoots.length} distinct Perforce client(s).`,
   );
-  return uniqueFolderUris;
+  return uniqueRoots;
+}
+
+// True if child is parent itself or a path below it
+function isWithin(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+// True if either path is inside (or equal to) the other
+function isWithinOrContains(pathA: string, pathB: string): boolean {
+  return isWithin(pathA, pathB) || isWithin(pathB, pathA);
 }
 
 function initializeProvider(rootUri: vscode.Uri): void {
@@ -404,8 +892,14 @@ function initializeProvider(rootUri: vscode.Uri): void {
       `Initializing Perforce SCM Provider for root: ${rootUri.fsPath}`,
     );
     try {
-      // Pass the shared output channel
-      const provider = new PerforceSCMProvider(rootUri, outputChannel);
+      // Pass the shared service and output channel
+      const provider: PerforceSCMProvider = new PerforceSCMProvider(
+        rootUri,
+        perforceService,
+        outputChannel,
+        extensionContext.workspaceState,
+        (uri) => getProviderForUri(uri) === provider,
+      );
       scmProviders.set(rootUriString, provider);
       // Add provider to context subscriptions for disposal
       extensionContext.subscriptions.push(provider);
@@ -454,9 +948,9 @@ function disposeProvider(rootUri: vscode.Uri): void {
   }
 }
 
-function handleWorkspaceFolderChange(
+async function handleWorkspaceFolderChange(
   event: vscode.WorkspaceFoldersChangeEvent,
-): void {
+): Promise<void> {
   outputChannel.appendLine("Workspace folders changed.");
   const activationMode = vscode.workspace
     .getConfiguration("perforce")
@@ -465,47 +959,79 @@ function handleWorkspaceFolderChange(
     return;
   }
 
-  // Initialize providers for added folders
-  for (const folder of event.added) {
-    outputChannel.appendLine(`Workspace folder added: ${folder.uri.fsPath}`);
-    // TODO: Add detection logic here? For now, just initialize.
-    initializeProvider(folder.uri);
-  }
-
-  // Dispose providers for removed folders
+  // Dispose providers for removed folders, including any for clients nested inside them
   for (const folder of event.removed) {
     outputChannel.appendLine(`Workspace folder removed: ${folder.uri.fsPath}`);
-    disposeProvider(folder.uri);
+    for (const provider of Array.from(scmProviders.values())) {
+      if (isWithin(provider.rootUri.fsPath, folder.uri.fsPath)) {
+        disposeProvider(provider.rootUri);
+      }
+    }
+  }
+
+  // Detect clients in added folders the same way as at startup
+  if (event.added.length > 0) {
+    event.added.forEach((folder) =>
+      outputChannel.appendLine(`Workspace folder added: ${folder.uri.fsPath}`),
+    );
+    for (const rootUri of await detectPerforceWorkspaces(event.added)) {
+      initializeProvider(rootUri);
+    }
+  }
+}
+
+/**
+ * Re-reads P4CONFIG files when they change, so the next command picks up the new settings.
+ */
+function watchP4ConfigFiles(context: vscode.ExtensionContext): void {
+  const configFileName = p4ConfigResolver.configFileName;
+  if (!configFileName) {
+    return;
   }
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    `**/${configFileName}`,
+  );
+  const clearCache = (uri: vscode.Uri) => {
+    outputChannel.appendLine(`P4CONFIG file changed: ${uri.fsPath}`);
+    p4ConfigResolver.clearCache();
+  };
+  context.subscriptions.push(
+    watcher,
+    watcher.onDidCreate(clearCache),
+    watcher.onDidChange(clearCache),
+    watcher.onDidDelete(clearCache),
+  );
 }
 
 // Helper function to find the SCM provider responsible for a given file URI
 function getProviderForUri(uri: vscode.Uri): PerforceSCMProvider | undefined {
-  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-  if (!workspaceFolder) {
-    outputChannel.appendLine(
-      `Could not find workspace folder for URI: ${uri.fsPath}`,
-    );
-    return undefined;
+  // Clients can be nested (one P4CONFIG per project), so the deepest root wins
+  let provider: PerforceSCMProvider | undefined;
+  for (const candidate of scmProviders.values()) {
+    if (
+      isWithin(uri.fsPath, candidate.rootUri.fsPath) &&
+      (!provider ||
+        candidate.rootUri.fsPath.length > provider.rootUri.fsPath.length)
+    ) {
+      provider = candidate;
+    }
   }
-  // Assuming the provider is stored keyed by the workspace folder URI string
-  const provider = scmProviders.get(workspaceFolder.uri.toString());
   if (!provider) {
     outputChannel.appendLine(
-      `No active Perforce SCM Provider found for workspace: ${workspaceFolder.uri.fsPath}`,
+      `No active Perforce SCM Provider found for: ${uri.fsPath}`,
     );
   }
   return provider;
 }
 
-// Helper function to run a command for multiple resources sequentially
+// Helper function to run a command for multiple resources, one call per provider
 async function runCommandOnResources(
   commandName: string,
   resources: vscode.SourceControlResourceState[],
   providerAction: (
     provider: PerforceSCMProvider,
-    uri: vscode.Uri,
-  ) => Promise<any>,
+    uris: vscode.Uri[],
+  ) => Promise<P4BatchResult>,
   errorMessagePrefix: string,
   successMessagePrefix: string,
 ): Promise<void> {
@@ -518,23 +1044,15 @@ async function runCommandOnResources(
   outputChannel.appendLine(
     `Command '${commandName}' triggered for ${resources.length} resource(s).`,
   );
-  let successCount = 0;
-  let firstError: Error | null = null;
 
+  // Group by provider so each workspace gets one (batched) command instead of one per file
+  const urisByProvider = new Map<PerforceSCMProvider, vscode.Uri[]>();
   for (const resource of resources) {
     const provider = getProviderForUri(resource.resourceUri);
     if (provider) {
-      try {
-        await providerAction(provider, resource.resourceUri);
-        successCount++;
-      } catch (error: any) {
-        outputChannel.appendLine(
-          `  Error processing ${resource.resourceUri.fsPath} for ${commandName}: ${error.message}`,
-        );
-        if (!firstError) {
-          firstError = error; // Store the first error encountered
-        }
-      }
+      const uris = urisByProvider.get(provider) ?? [];
+      uris.push(resource.resourceUri);
+      urisByProvider.set(provider, uris);
     } else {
       vscode.window.showWarningMessage(
         `Could not find Perforce provider for ${vscode.workspace.asRelativePath(resource.resourceUri)}`,
@@ -542,9 +1060,26 @@ async function runCommandOnResources(
     }
   }
 
-  if (firstError) {
+  let successCount = 0;
+  const failures: P4FileFailure[] = [];
+  for (const [provider, uris] of urisByProvider) {
+    try {
+      const result = await providerAction(provider, uris);
+      successCount += result.succeeded.length;
+      failures.push(...result.failed);
+    } catch (error: any) {
+      outputChannel.appendLine(
+        `  Error processing ${uris.length} resource(s) in ${provider.rootUri.fsPath} for ${commandName}: ${error.message}`,
+      );
+      failures.push(
+        ...uris.map((uri) => ({ file: uri.fsPath, message: error.message })),
+      );
+    }
+  }
+
+  if (failures.length > 0) {
     vscode.window.showErrorMessage(
-      `${errorMessagePrefix} failed for some resources. Check output channel for details. First error: ${firstError.message}`,
+      `${errorMessagePrefix} failed for ${failures.length} of ${resources.length} resource(s). Check output channel for details. First error: ${failures[0].message}`,
     );
   } else if (successCount > 0) {
     vscode.window.setStatusBarMessage(
@@ -559,6 +1094,100 @@ async function runCommandOnResources(
   }
 }
 
+// Register the command log view and the actions on its rows
+function registerCommandLogView(context: vscode.ExtensionContext) {
+  const provider = new CommandLogProvider(perforceService.commandLog);
+  context.subscriptions.push(
+    provider,
+    vscode.window.registerTreeDataProvider(COMMAND_LOG_VIEW_ID, provider),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("perforce.commandLog.clear", () =>
+      perforceService.commandLog.clear(),
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "perforce.commandLog.copyCommandLine",
+      async (node) => {
+        const entry = entryFromNode(node);
+        if (entry) {
+          await vscode.env.clipboard.writeText(formatCommandLine(entry));
+          vscode.window.setStatusBarMessage(
+            "Perforce: Command line copied.",
+            3000,
+          );
+        }
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "perforce.commandLog.showOutput",
+      async (node) => {
+        const entry = entryFromNode(node);
+        if (!entry) {
+          return;
+        }
+        const document = await vscode.workspace.openTextDocument({
+          content: [
+            formatCommandLine(entry),
+            "",
+            "--- stdout ---",
+            entry.stdout,
+            "",
+            "--- stderr ---",
+            entry.stderr,
+          ].join("\n"),
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "perforce.commandLog.rerun",
+      async (node) => {
+        const entry = entryFromNode(node);
+        const rerun = entry?.rerun;
+        if (!entry || !rerun) {
+          vscode.window.showWarningMessage(
+            "Perforce: Commands that read input (such as login) cannot be re-run from the log.",
+          );
+          return;
+        }
+        if (!isReadOnlyCommand(rerun.command, rerun.args)) {
+          const answer = await vscode.window.showWarningMessage(
+            `Run \`${formatCommandLine(entry)}\` again? It may change files or the server.`,
+            { modal: true },
+            "Re-run",
+          );
+          if (answer !== "Re-run") {
+            return;
+          }
+        }
+        try {
+          // The new run shows up as its own row
+          await perforceService.execute(
+            rerun.command,
+            rerun.args,
+            rerun.options,
+            entry.useTaggedOutput,
+          );
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Perforce: Re-run failed. ${error.message}`,
+          );
+        }
+      },
+    ),
+  );
+}
+
 // Register commands that interact with the SCM providers
 function registerSCMCommands(context: vscode.ExtensionContext) {
   context.subscriptions.push(
@@ -568,7 +1197,7 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
         await runCommandOnResources(
           "editSelected",
           resourceStates,
-          (provider, uri) => provider.editFile(uri),
+          (provider, uris) => provider.editFiles(uris),
           "Edit",
           "Opened for edit",
         );
@@ -596,7 +1225,7 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
         await runCommandOnResources(
           "revertSelected",
           resourceStates,
-          (provider, uri) => provider.revertFile(uri),
+          (provider, uris) => provider.revertFiles(uris),
           "Revert",
           "Reverted",
         );
@@ -611,7 +1240,7 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
         await runCommandOnResources(
           "addSelected",
           resourceStates,
-          (provider, uri) => provider.addFile(uri),
+          (provider, uris) => provider.addFiles(uris),
           "Add",
           "Opened for add",
         );
@@ -639,7 +1268,7 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
         await runCommandOnResources(
           "deleteSelected",
           resourceStates,
-          (provider, uri) => provider.deleteFile(uri),
+          (provider, uris) => provider.deleteFiles(uris),
           "Delete",
           "Marked for delete",
         );
@@ -647,6 +1276,36 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
     ),
   );
 
+  // The explorer menu passes the clicked file and the whole selection; the command
+  // palette passes nothing, so those act on the active editor's file
+  const explorerCommands: [string, string][] = [
+    ["perforce.explorer.edit", "perforce.editSelected"],
+    ["perforce.explorer.add", "perforce.addSelected"],
+    ["perforce.explorer.delete", "perforce.deleteSelected"],
+  ];
+  for (const [command, selectedCommand] of explorerCommands) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(
+        command,
+        (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+          const selected = uris?.length
+            ? uris
+            : [uri ?? vscode.window.activeTextEditor?.document.uri];
+          const resourceStates = selected
+            .filter(
+              (resourceUri): resourceUri is vscode.Uri =>
+                resourceUri?.scheme === "file",
+            )
+            .map((resourceUri) => ({ resourceUri }));
+          return vscode.commands.executeCommand(
+            selectedCommand,
+            ...resourceStates,
+          );
+        },
+      ),
+    );
+  }
+
   // --- Sync ---
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -675,19 +1334,41 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
         }
 
         let success = true;
-        for (const [provider, providerUris] of providers.entries()) {
-          try {
-            await provider.syncFiles(providerUris);
-          } catch (error: any) {
-            success = false;
-            vscode.window.showErrorMessage(
-              `Perforce: Sync failed for ${provider.rootUri.fsPath}. ${error.message}`,
-            );
-            outputChannel.appendLine(
-              `  Error syncing files in ${provider.rootUri.fsPath}: ${error.message}`,
-            );
-          }
-        }
+        await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Perforce: Syncing selected files",
+            cancellable: true,
+          },
+          async (_progress, token) => {
+            for (const [provider, providerUris] of providers.entries()) {
+              if (token.isCancellationRequested) {
+                break;
+              }
+              try {
+                const result = await provider.syncFiles(providerUris, token);
+                if (result.failed.length > 0) {
+                  success = false;
+                  vscode.window.showErrorMessage(
+                    `Perforce: Sync failed for ${result.failed.length} file(s) in ${provider.rootUri.fsPath}. First error: ${result.failed[0].message}`,
+                  );
+                }
+              } catch (error: any) {
+                success = false;
+                if (isP4Error(error, "cancelled")) {
+                  outputChannel.appendLine("  Sync cancelled by user.");
+                  break;
+                }
+                vscode.window.showErrorMessage(
+                  `Perforce: Sync failed for ${provider.rootUri.fsPath}. ${error.message}`,
+                );
+                outputChannel.appendLine(
+                  `  Error syncing files in ${provider.rootUri.fsPath}: ${error.message}`,
+                );
+              }
+            }
+          },
+        );
         if (success) {
           vscode.window.setStatusBarMessage(
             `Perforce: Sync command finished for selected file(s).`,
@@ -698,6 +1379,79 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
     ),
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "perforce.syncAndResolve",
+      async (
+        ...args: (
+          vscode.SourceControlResourceState | vscode.SourceControlResourceGroup
+        )[]
+      ) => {
+        // Invoked on selected files, or on the Needs Sync group as a whole
+        const resourceStates = args.flatMap((arg) =>
+          "resourceStates" in arg ? arg.resourceStates : [arg],
+        );
+        const providers = new Map<PerforceSCMProvider, vscode.Uri[]>();
+        for (const { resourceUri } of resourceStates) {
+          const provider = getProviderForUri(resourceUri);
+          if (provider) {
+            providers.set(provider, [
+              ...(providers.get(provider) ?? []),
+              resourceUri,
+            ]);
+          }
+        }
+        if (providers.size === 0) {
+          vscode.window.showWarningMessage("No out-of-date file selected.");
+          return;
+        }
+
+        await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Perforce: Syncing and resolving",
+            cancellable: true,
+          },
+          async (_progress, token) => {
+            for (const [provider, uris] of providers.entries()) {
+              try {
+                const { synced, conflicts } = await provider.syncAndResolve(
+                  uris,
+                  token,
+                );
+                if (synced.failed.length > 0) {
+                  vscode.window.showErrorMessage(
+                    `Perforce: Sync failed for ${synced.failed.length} file(s). First error: ${synced.failed[0].message}`,
+                  );
+                }
+                if (conflicts.length > 0) {
+                  vscode.window.showWarningMessage(
+                    `Perforce: ${conflicts.length} file(s) have conflicting changes and still need a resolve: ${conflicts
+                      .map((uri) => vscode.workspace.asRelativePath(uri))
+                      .join(", ")}`,
+                  );
+                } else if (synced.succeeded.length > 0) {
+                  vscode.window.setStatusBarMessage(
+                    `Perforce: ${synced.succeeded.length} file(s) synced and merged.`,
+                    3000,
+                  );
+                }
+              } catch (error: any) {
+                if (isP4Error(error, "cancelled")) {
+                  outputChannel.appendLine("  Sync and resolve cancelled.");
+                  break;
+                }
+                vscode.window.showErrorMessage(
+                  `Perforce: Sync and resolve failed for ${provider.rootUri.fsPath}. ${error.message}`,
+                );
+              }
+            }
+          },
+        );
+      },
+    ),
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand("perforce.syncAll", async () => {
       // Sync all roots managed by active providers
@@ -718,23 +1472,42 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
         );
         return;
       }
-      for (const provider of scmProviders.values()) {
-        try {
-          vscode.window.setStatusBarMessage(
-            `Perforce: Syncing ${provider.rootUri.fsPath}...`,
-            5000,
-          );
-          await provider.syncFiles([]); // Pass empty array to sync all
-        } catch (error: any) {
-          success = false;
-          vscode.window.showErrorMessage(
-            `Perforce: Sync failed for ${provider.rootUri.fsPath}. ${error.message}`,
-          );
-          outputChannel.appendLine(
-            `  Error syncing all files in ${provider.rootUri.fsPath}: ${error.message}`,
-          );
-        }
-      }
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Perforce: Syncing",
+          cancellable: true,
+        },
+        async (progress, token) => {
+          for (const provider of scmProviders.values()) {
+            if (token.isCancellationRequested) {
+              break;
+            }
+            try {
+              progress.report({ message: provider.rootUri.fsPath });
+              const result = await provider.syncFiles([], token); // Pass empty array to sync all
+              if (result.failed.length > 0) {
+                success = false;
+                vscode.window.showErrorMessage(
+                  `Perforce: Sync failed for ${result.failed.length} file(s) in ${provider.rootUri.fsPath}. First error: ${result.failed[0].message}`,
+                );
+              }
+            } catch (error: any) {
+              success = false;
+              if (isP4Error(error, "cancelled")) {
+                outputChannel.appendLine("  Sync All cancelled by user.");
+                break;
+              }
+              vscode.window.showErrorMessage(
+                `Perforce: Sync failed for ${provider.rootUri.fsPath}. ${error.message}`,
+              );
+              outputChannel.appendLine(
+                `  Error syncing all files in ${provider.rootUri.fsPath}: ${error.message}`,
+              );
+            }
+          }
+        },
+      );
       if (success) {
         vscode.window.setStatusBarMessage(
           `Perforce: Sync all command finished.`,
@@ -1200,6 +1973,48 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
     ),
   );
 
+  // Shelving or unshelving single files; `perforce.fileShelveMode` decides what happens to the other copy
+  const registerFileShelveCommand = (
+    command: string,
+    verb: string,
+    run: (provider: PerforceSCMProvider, uris: vscode.Uri[]) => Promise<void>,
+  ) =>
+    vscode.commands.registerCommand(
+      command,
+      async (...resourceStates: vscode.SourceControlResourceState[]) => {
+        outputChannel.appendLine(`Command '${command}' triggered.`);
+        const providers = new Map<PerforceSCMProvider, vscode.Uri[]>();
+        for (const { resourceUri } of resourceStates) {
+          const provider = getProviderForUri(resourceUri);
+          if (provider) {
+            providers.set(provider, [
+              ...(providers.get(provider) ?? []),
+              resourceUri,
+            ]);
+          }
+        }
+        for (const [provider, uris] of providers.entries()) {
+          try {
+            await run(provider, uris);
+          } catch (error: any) {
+            vscode.window.showErrorMessage(
+              `Perforce: Failed to ${verb} files. ${error.message}`,
+            );
+          }
+        }
+      },
+    );
+  context.subscriptions.push(
+    registerFileShelveCommand("perforce.shelve", "shelve", (provider, uris) =>
+      provider.shelveFiles(uris),
+    ),
+    registerFileShelveCommand(
+      "perforce.unshelve",
+      "unshelve",
+      (provider, uris) => provider.unshelveFiles(uris),
+    ),
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand("perforce.unshelveSpecific", async () => {
       outputChannel.appendLine(
@@ -1464,6 +2279,36 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
     ),
   );
 
+  // --- Revert QuickDiff hunk (editor gutter) ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "perforce.revertChange",
+      async (uri?: vscode.Uri, changes?: LineChange[], index?: number) => {
+        if (!uri || !changes || index === undefined) {
+          return;
+        }
+        const provider = getProviderForUri(uri);
+        if (!provider) {
+          vscode.window.showWarningMessage(
+            `Could not find Perforce provider for ${vscode.workspace.asRelativePath(uri)}`,
+          );
+          return;
+        }
+
+        try {
+          await provider.revertChange(uri, changes, index);
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Perforce: Failed to revert change in ${vscode.workspace.asRelativePath(uri)}. ${error.message}`,
+          );
+          outputChannel.appendLine(
+            `  Error reverting change in ${uri.fsPath}: ${error.message}`,
+          );
+        }
+      },
+    ),
+  );
+
   // --- Resolve ---
   // Basic resolve command - needs more UI for different resolve types
   context.subscriptions.push(
@@ -1571,11 +2416,14 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
       // TODO: Add UI to specify filters (user, status, path, max)
 
       try {
-        vscode.window.setStatusBarMessage(
-          `Perforce: Fetching recent changes...`,
-          3000,
+        const changes = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Perforce: Fetching recent changes...",
+            cancellable: true,
+          },
+          (_progress, token) => provider.getChanges(args, token),
         );
-        const changes = await provider.getChanges(args);
         outputChannel.show();
         outputChannel.appendLine(`--- Recent Submitted Changes (Max 20) ---`);
         if (changes.length > 0) {
@@ -1595,6 +2443,10 @@ function registerSCMCommands(context: vscode.ExtensionContext) {
           5000,
         );
       } catch (error: any) {
+        if (isP4Error(error, "cancelled")) {
+          outputChannel.appendLine("  Fetching changes cancelled by user.");
+          return;
+        }
         vscode.window.showErrorMessage(
           `Perforce: Failed to get changes. ${error.message}`,
         );
@@ -1775,19 +2627,21 @@ async function updateStatusBarItem(): Promise<void> {
           `Error updating status bar via getInfo: ${errorMsg}`,
         );
 
-        if (
-          errorMsg.includes("not logged in") ||
-          errorMsg.includes("Perforce password (P4PASSWD) invalid or unset")
-        ) {
+        if (isP4Error(error, "authExpired")) {
           p4StatusBarItem.text = `$(key) P4: Login Required`;
           p4StatusBarItem.tooltip = `Perforce login required. Click to login.`;
           // Implement 'perforce.login' command
           p4StatusBarItem.command = "perforce.login";
           // p4StatusBarItem.command = 'perforce.showOutput'; // Temporary fallback
-        } else if (
-          errorMsg.includes("client unknown") ||
-          errorMsg.includes("Client specification unknown")
-        ) {
+        } else if (isP4Error(error, "sslUntrusted", "sslFingerprintChanged")) {
+          p4StatusBarItem.text = `$(shield) P4: Untrusted Server`;
+          p4StatusBarItem.tooltip = `The Perforce server's SSL fingerprint is not trusted.\nError: ${errorMsg}`;
+          p4StatusBarItem.command = "perforce.showOutput";
+        } else if (isP4Error(error, "connectionRefused")) {
+          p4StatusBarItem.text = `$(debug-disconnect) P4: Offline`;
+          p4StatusBarItem.tooltip = `Could not connect to the Perforce server.\nError: ${errorMsg}`;
+          p4StatusBarItem.command = "perforce.showOutput";
+        } else if (isP4Error(error, "unknownClient")) {
           // This might happen if the workspace detection got it wrong initially
           p4StatusBarItem.text = `$(warning) P4: Client Unknown`;
           p4StatusBarItem.tooltip = `Perforce client spec unknown or invalid for this workspace.\nError: ${errorMsg}`;
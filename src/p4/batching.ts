@@ -0,0 +1,128 @@
+import {
+  P4BatchResult,
+  P4CommandContext,
+  P4Message,
+  P4Options,
+} from "./p4Types";
+import { isP4Error, SESSION_ERROR_CATEGORIES } from "./p4Errors";
+
+/**
+ * Splits a list into consecutive chunks of at most `size` items.
+ * @param items The list to split.
+ * @param size Maximum chunk length (at least 1).
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const step = Math.max(1, Math.floor(size));
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += step) {
+    chunks.push(items.slice(i, i + step));
+  }
+  return chunks;
+}
+
+// "<file> - <reason>", the form p4 uses for per-file messages
+const FILE_MESSAGE = /^(.+?) - (.+)$/s;
+
+// Adds a chunk's error records to the result; returns the files they named
+function assignMessages(
+  messages: P4Message[],
+  batch: string[],
+  result: P4BatchResult,
+  settled?: RegExp,
+): Set<string> {
+  const named = new Set<string>();
+  for (const message of messages) {
+    if (message.code !== "error" || message.severity < 2) {
+      continue; // Informational
+    }
+    const match = FILE_MESSAGE.exec(message.data.trim());
+    const file = match ? match[1] : batch.length === 1 ? batch[0] : "";
+    named.add(file);
+    if (settled?.test(message.data)) {
+      if (file) {
+        result.succeeded.push(file);
+      }
+    } else {
+      result.failed.push({ file, message: message.data.trim() });
+    }
+  }
+  return named;
+}
+
+/**
+ * Runs a p4 file command over any number of files, at most `batchSize` per p4 process,
+ * and merges the per-file results. Chunks run one after another.
+ *
+ * Each chunk runs with -G: data records count as successes, error records as failures
+ * of the file they name. When a chunk exits with an error, its error records are
+ * assigned the same way and its other files not reported as done are marked failed,
+ * except for cancellation and session failures (login, connection, client), which
+ * abort the remaining chunks and are rethrown.
+ * @param context Object containing execute function and outputChannel.
+ * @param command The p4 command (e.g., 'edit').
+ * @param args Flags placed before the files (e.g., ['-c', '123']).
+ * @param filePaths Files to pass. If empty, the command runs once with no file arguments.
+ * @param options P4 options (cwd, P4CLIENT etc.).
+ * @param batchSize Maximum number of files per p4 process.
+ * @param settled Messages matching this are not failures: the file is already in the requested state.
+ */
+export async function executeBatched(
+  context: P4CommandContext,
+  command: string,
+  args: string[],
+  filePaths: string[],
+  options: P4Options,
+  batchSize: number,
+  settled?: RegExp,
+): Promise<P4BatchResult> {
+  const result: P4BatchResult = { succeeded: [], failed: [] };
+  const batches = filePaths.length > 0 ? chunk(filePaths, batchSize) : [[]];
+
+  for (const [index, batch] of batches.entries()) {
+    if (batches.length > 1) {
+      context.outputChannel.appendLine(
+        `  p4 ${command}: batch ${index + 1}/${batches.length} (${batch.length} files)`,
+      );
+    }
+    const done = new Set<string>(); // Files this chunk reported as done
+    try {
+      const chunkResult = await context.execute(
+        command,
+        [...args, ...batch],
+        options,
+        true,
+        undefined,
+        {
+          token: context.token,
+          onRecord: (record) => {
+            const file = record.clientFile ?? record.depotFile ?? record.path;
+            if (typeof file === "string") {
+              result.succeeded.push(file);
+              done.add(file);
+            }
+          },
+        },
+      );
+      assignMessages(chunkResult.messages ?? [], batch, result, settled);
+    } catch (error: any) {
+      if (isP4Error(error, "cancelled", ...SESSION_ERROR_CATEGORIES)) {
+        throw error; // The remaining batches would fail the same way
+      }
+      if (batch.length === 0) {
+        throw error; // Nothing to attribute the failure to
+      }
+      // p4 exits non-zero when any file fails; the others may well have succeeded
+      const named = isP4Error(error)
+        ? assignMessages(error.messages, batch, result, settled)
+        : new Set<string>();
+      const message = error instanceof Error ? error.message : String(error);
+      result.failed.push(
+        ...batch
+          .filter((file) => !done.has(file) && !named.has(file))
+          .map((file) => ({ file, message })),
+      );
+    }
+  }
+
+  return result;
+}
@@ -5,7 +5,10 @@ import {
   P4DescribeResult,
   P4CommandContext,
   P4ChangeSummary,
+  P4SpecFields,
 } from "./p4Types"; // Import relevant types
+import { P4Error, classifyP4Error } from "./p4Errors";
+import { p4saveSpec, p4specFields } from "./specCommands";
 
 /**
  * Gets the text specification for a new changelist. Uses `p4 change -o`.
@@ -22,7 +25,14 @@ export async function p4newChangeSpec(
   try {
     // -o outputs the spec to stdout
     // No tagged output
-    const result = await context.execute("change", ["-o"], options, false);
+    const result = await context.execute(
+      "change",
+      ["-o"],
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     if (result.stderr) {
       // Log stderr as warning/info, but stdout should still have the spec
@@ -74,6 +84,8 @@ export async function p4editChangeSpec(
       ["-o", changelist],
       options,
       false,
+      undefined,
+      { token: context.token },
     );
 
     if (result.stderr) {
@@ -134,6 +146,7 @@ export async function p4saveChangeSpec(
       options,
       false,
       specString,
+      { token: context.token },
     );
 
     // Successful save typically outputs "Change X created." or "Change X updated." to stdout.
@@ -182,6 +195,48 @@ export async function p4saveChangeSpec(
   }
 }
 
+/**
+ * Gets a changelist specification as fields. Uses `p4 -G change -o [changelist]`.
+ * @param context Object containing execute function and outputChannel.
+ * @param changelist Optional: The changelist number. If omitted, returns the spec for a new changelist.
+ * @param options P4 options (cwd, P4CLIENT, P4USER etc.).
+ * @returns A promise that resolves to the spec fields (Files and Jobs as arrays).
+ */
+export async function p4changeFields(
+  context: P4CommandContext,
+  changelist?: string,
+  options: P4Options = {},
+): Promise<P4SpecFields> {
+  return p4specFields(context, "change", changelist, options);
+}
+
+/**
+ * Saves a changelist specification from fields (creates a new one or updates an existing one).
+ * Uses `p4 -G change -i`, so descriptions and file lists need no text formatting.
+ * @param context Object containing execute function and outputChannel.
+ * @param fields Spec fields, e.g. from p4changeFields. Change 'new' creates a changelist.
+ * @param options P4 options (cwd, P4CLIENT, P4USER etc.).
+ * @returns A promise that resolves to the changelist number (as a string) that was created/updated.
+ * @throws Error if saving fails or the changelist number cannot be determined.
+ */
+export async function p4saveChangeFields(
+  context: P4CommandContext,
+  fields: P4SpecFields,
+  options: P4Options = {},
+): Promise<string> {
+  const output = await p4saveSpec(context, "change", fields, options);
+  const match = output.match(/Change\s+(\d+)\s+(created|updated)/);
+  if (!match) {
+    throw new Error(
+      `Could not determine changelist number from \`p4 change -i\` output: ${output}`,
+    );
+  }
+  context.outputChannel.appendLine(
+    `Successfully saved changelist ${match[1]}.`,
+  );
+  return match[1];
+}
+
 /**
  * Submits an existing pending changelist or the default changelist. Uses `p4 submit [-c <changelist>]`.
  * (Formerly PerforceService.submit)
@@ -205,7 +260,14 @@ export async function p4submit(
 
   try {
     // Submit doesn't typically use tagged output, but output can be complex (locking, triggers, errors)
-    const result = await context.execute("submit", args, options, false);
+    const result = await context.execute(
+      "submit",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     // Submit output varies greatly depending on success, failure, triggers, etc.
     // Successful submit usually indicates submitted change number in stderr/stdout.
@@ -223,13 +285,17 @@ export async function p4submit(
         // Consider this success or a specific status? Returning null for now.
         return null;
       }
-      if (result.stderr.includes("must resolve")) {
+      if (classifyP4Error(result.stderr) === "needsResolve") {
         context.outputChannel.appendLine(
           "Submit failed: Files must be resolved first.",
         );
-        // Throw a specific error?
-        throw new Error(
+        throw new P4Error(
           "Submit failed: Files must be resolved first. Details in output channel.",
+          {
+            command: "submit",
+            category: "needsResolve",
+            exitCode: result.exitCode,
+          },
         );
       }
     }
@@ -296,6 +362,8 @@ export async function p4describe(
       [changelist],
       options,
       true,
+      undefined,
+      { token: context.token },
     );
 
     if (result.stderr) {
@@ -366,6 +434,8 @@ export async function p4changes(
       effectiveArgs,
       options,
       true,
+      undefined,
+      { token: context.token },
     );
 
     if (result.stderr) {
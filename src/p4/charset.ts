@@ -0,0 +1,144 @@
+// P4CHARSET values and the WHATWG encoding label TextDecoder uses for each (BOM variants share a label)
+const DECODER_LABELS: Record<string, string> = {
+  "iso8859-1": "iso-8859-1",
+  "iso8859-15": "iso-8859-15",
+  eucjp: "euc-jp",
+  shiftjis: "shift_jis",
+  winansi: "windows-1252",
+  macosroman: "macintosh",
+  utf8: "utf-8",
+  "utf8-bom": "utf-8",
+  utf8unchecked: "utf-8",
+  "utf8unchecked-bom": "utf-8",
+  utf16: "utf-16le",
+  utf16le: "utf-16le",
+  utf16be: "utf-16be",
+  "utf16-nobom": "utf-16le",
+  "utf16le-nobom": "utf-16le",
+  "utf16be-nobom": "utf-16be",
+};
+
+// `files.encoding` values with a P4CHARSET of the same encoding; anything else maps to utf8
+const CHARSET_FOR_FILES_ENCODING: Record<string, string> = {
+  utf8: "utf8",
+  utf8bom: "utf8-bom",
+  utf16le: "utf16le",
+  utf16be: "utf16be",
+};
+
+// Commands whose stdout is file content (translated to P4CHARSET) rather than command output
+const CONTENT_COMMANDS = new Set(["print", "diff", "diff2", "annotate"]);
+
+// What `p4 info` says about the server's unicode mode
+export interface P4UnicodeInfo {
+  unicode: boolean;
+  charset?: string; // Charset p4 reports for the client, if any
+}
+
+/**
+ * Reads the unicode mode from `p4 info` output. Unicode servers report
+ * "Unicode enabled" (text) or "unicode enabled" (tagged).
+ * @param stdout Output of `p4 info` or `p4 -ztag info`.
+ */
+export function parseUnicodeInfo(stdout: string): P4UnicodeInfo {
+  const unicode = /^(?:\.\.\.\s+)?(?:Server\s+)?unicode:?\s+enabled\b/im.test(
+    stdout,
+  );
+  const charset = stdout
+    .match(/^(?:\.\.\.\s+)?(?:Client\s*)?charset:?\s+(\S+)/im)?.[1]
+    .trim();
+  return {
+    unicode,
+    charset: charset && charset !== "none" ? charset : undefined,
+  };
+}
+
+/**
+ * Picks a P4CHARSET for a unicode server when none is configured: the encoding
+ * VS Code itself writes files in, which is utf8 unless `files.encoding` says otherwise.
+ * @param filesEncoding The `files.encoding` setting.
+ */
+export function chooseCharset(filesEncoding?: string): string {
+  return (filesEncoding && CHARSET_FOR_FILES_ENCODING[filesEncoding]) || "utf8";
+}
+
+/**
+ * p4 cannot print its own messages in utf16 or utf32, so those charsets need
+ * P4COMMANDCHARSET to say how command output is encoded.
+ * @param charset A P4CHARSET value.
+ */
+export function requiresCommandCharset(charset: string): boolean {
+  return /^utf(16|32)/.test(charset);
+}
+
+/**
+ * The charset a command's stdout is encoded in. File content follows P4CHARSET;
+ * everything else follows P4COMMANDCHARSET when it is set.
+ * @param command The p4 command.
+ * @param charset P4CHARSET in effect, if any.
+ * @param commandCharset P4COMMANDCHARSET in effect, if any.
+ */
+export function outputCharset(
+  command: string,
+  charset?: string,
+  commandCharset?: string,
+): string | undefined {
+  return CONTENT_COMMANDS.has(command) ? charset : (commandCharset ?? charset);
+}
+
+/**
+ * Decodes p4 output bytes. A byte order mark wins over the charset, since utf16
+ * files print with one whatever P4CHARSET says; the mark itself is dropped.
+ * @param bytes Raw stdout.
+ * @param charset P4CHARSET the output is encoded in; utf8 if unset.
+ */
+export function decodeP4Output(bytes: Buffer, charset?: string): string {
+  if (bytes.length >= 4) {
+    if (
+      bytes[0] === 0xff &&
+      bytes[1] === 0xfe &&
+      bytes[2] === 0 &&
+      bytes[3] === 0
+    ) {
+      return decodeUtf32(bytes.subarray(4), true);
+    }
+    if (
+      bytes[0] === 0 &&
+      bytes[1] === 0 &&
+      bytes[2] === 0xfe &&
+      bytes[3] === 0xff
+    ) {
+      return decodeUtf32(bytes.subarray(4), false);
+    }
+  }
+  if (bytes.length >= 2) {
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+    }
+  }
+  if (charset && /^utf32/.test(charset)) {
+    return decodeUtf32(bytes, !/be/.test(charset));
+  }
+  const label = (charset && DECODER_LABELS[charset]) || "utf-8";
+  // TextDecoder drops a utf8 BOM by default
+  return new TextDecoder(label).decode(bytes);
+}
+
+// TextDecoder has no utf32, which p4 supports as a P4CHARSET
+function decodeUtf32(bytes: Buffer, littleEndian: boolean): string {
+  const codePoints: number[] = [];
+  for (let i = 0; i + 3 < bytes.length; i += 4) {
+    codePoints.push(
+      littleEndian ? bytes.readUInt32LE(i) : bytes.readUInt32BE(i),
+    );
+  }
+  return codePoints
+    .map((codePoint) =>
+      // Out-of-range values become the replacement character, as TextDecoder does
+      String.fromCodePoint(codePoint <= 0x10ffff ? codePoint : 0xfffd),
+    )
+    .join("");
+}
@@ -0,0 +1,339 @@
+import * as path from "path";
+import { P4CommandContext, P4Options } from "./p4Types";
+import { specFieldsFromRecord } from "./p4Utils";
+
+// How a View line combines with the lines before it
+export type P4MappingType = "map" | "exclude" | "overlay";
+
+// One line of a client View, e.g. `-//depot/main/*.log //ws/main/*.log`
+export interface P4ViewMapping {
+  type: P4MappingType;
+  depot: string;
+  client: string;
+}
+
+/**
+ * Parses a View line. Either path may be quoted (for spaces); the `-`, `+` or
+ * `&` prefix may sit inside or outside the quotes. Ditto (`&`) lines are read
+ * as overlays, which is how they behave for mapping one path at a time.
+ * @param line A View line as it appears in the client spec.
+ * @returns The mapping, or undefined for a line without two paths.
+ */
+export function parseViewLine(line: string): P4ViewMapping | undefined {
+  const paths = Array.from(line.matchAll(/([-+&]?)"([^"]*)"|(\S+)/g)).map(
+    (match) => match[3] ?? match[1] + match[2],
+  );
+  if (paths.length !== 2) {
+    return undefined;
+  }
+  let [depot, client] = paths;
+  let type: P4MappingType = "map";
+  const prefix = depot.match(/^[-+&]/)?.[0];
+  if (prefix) {
+    type = prefix === "-" ? "exclude" : "overlay";
+    depot = depot.slice(1);
+  }
+  return { type, depot, client };
+}
+
+// A View path compiled for matching; wildcards are captured in order of appearance
+interface CompiledPattern {
+  regex: RegExp;
+  wildcards: string[]; // "...", "*" or "%%n" for each capture group
+}
+
+function compilePattern(
+  pattern: string,
+  caseInsensitive: boolean,
+): CompiledPattern {
+  const wildcards: string[] = [];
+  const source = pattern.replace(
+    /\.\.\.|\*|%%\d|[.+?^${}()|[\]\\]/g,
+    (token) => {
+      if (token === "...") {
+        wildcards.push(token);
+        return "(.*)";
+      }
+      if (token === "*" || token.startsWith("%%")) {
+        wildcards.push(token);
+        return "([^/]*)";
+      }
+      return `\\${token}`;
+    },
+  );
+  return {
+    regex: new RegExp(`^${source}$`, caseInsensitive ? "i" : ""),
+    wildcards,
+  };
+}
+
+// Fills the wildcards of a pattern with what the other side of the line matched
+function substitute(
+  pattern: string,
+  from: CompiledPattern,
+  captures: string[],
+): string {
+  // `%%n` pairs by number; `...` and `*` pair with the same kind in order
+  const positional = new Map<string, string>();
+  const queues: Record<string, string[]> = { "...": [], "*": [] };
+  from.wildcards.forEach((wildcard, i) => {
+    if (wildcard.startsWith("%%")) {
+      positional.set(wildcard, captures[i]);
+    } else {
+      queues[wildcard].push(captures[i]);
+    }
+  });
+  return pattern.replace(
+    /\.\.\.|\*|%%\d/g,
+    (token) =>
+      (token.startsWith("%%")
+        ? positional.get(token)
+        : queues[token].shift()) ?? "",
+  );
+}
+
+interface CompiledMapping extends P4ViewMapping {
+  depotPattern: CompiledPattern;
+  clientPattern: CompiledPattern;
+}
+
+type Side = "depot" | "client";
+
+// Whether a path relative to a directory is within it
+function isInside(relative: string): boolean {
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Translates between depot, client and local paths from a client's View, Root
+ * and AltRoots, the way the server does for `p4 where`, without asking it.
+ * Later View lines take precedence over earlier ones; `-` lines unmap paths and
+ * `+` lines add to, rather than replace, what earlier lines map to the same place.
+ */
+export class ClientViewMapper {
+  private readonly mappings: CompiledMapping[];
+  private readonly clientPrefix: string;
+
+  /**
+   * @param clientName Name of the client (workspace).
+   * @param roots Root followed by any AltRoots. Local paths are made under the
+   *   first of them that contains the current directory, else under the Root.
+   * @param view View lines from the client spec.
+   * @param caseInsensitive True for servers that compare paths case-insensitively.
+   */
+  constructor(
+    public readonly clientName: string,
+    private readonly roots: string[],
+    view: string[],
+    private readonly caseInsensitive = false,
+  ) {
+    this.clientPrefix = `//${clientName}/`;
+    this.mappings = view
+      .map(parseViewLine)
+      .filter((mapping): mapping is P4ViewMapping => !!mapping)
+      .map((mapping) => ({
+        ...mapping,
+        depotPattern: compilePattern(mapping.depot, caseInsensitive),
+        clientPattern: compilePattern(mapping.client, caseInsensitive),
+      }));
+  }
+
+  /** The client path a depot path maps to, or undefined if it is not in the view. */
+  public depotToClient(depotPath: string): string | undefined {
+    return this.translate(depotPath, "depot", "client");
+  }
+
+  /** The depot path a client path maps to, or undefined if it is not in the view. */
+  public clientToDepot(clientPath: string): string | undefined {
+    return this.translate(clientPath, "client", "depot");
+  }
+
+  /**
+   * The local path of a client path (`//client/...`), under the root p4 would use.
+   * @param cwd Directory the path is looked up from, as p4's current directory.
+   */
+  public clientToLocal(clientPath: string, cwd?: string): string | undefined {
+    const root = this.rootFor(cwd);
+    if (!this.startsWith(clientPath, this.clientPrefix) || !root) {
+      return undefined;
+    }
+    const relative = clientPath.slice(this.clientPrefix.length);
+    return path.join(root, ...relative.split("/"));
+  }
+
+  /** The client path of a local file under the Root or one of the AltRoots. */
+  public localToClient(localPath: string): string | undefined {
+    for (const root of this.roots) {
+      const relative = path.relative(root, localPath);
+      if (relative && isInside(relative)) {
+        return this.clientPrefix + relative.split(path.sep).join("/");
+      }
+    }
+    return undefined;
+  }
+
+  /** The local path of a depot path, or undefined if it is not in the view. */
+  public depotToLocal(depotPath: string, cwd?: string): string | undefined {
+    const clientPath = this.depotToClient(depotPath);
+    return clientPath ? this.clientToLocal(clientPath, cwd) : undefined;
+  }
+
+  /** The depot path of a local file, or undefined if it is not in the view. */
+  public localToDepot(localPath: string): string | undefined {
+    const clientPath = this.localToClient(localPath);
+    return clientPath ? this.clientToDepot(clientPath) : undefined;
+  }
+
+  /**
+   * The local path for a path in any syntax, as `p4 where` accepts: depot,
+   * client or local. Local paths are returned as they are if they are mapped.
+   * @param cwd Directory the path is looked up from, as p4's current directory.
+   */
+  public toLocal(anyPath: string, cwd?: string): string | undefined {
+    if (this.startsWith(anyPath, this.clientPrefix)) {
+      return this.clientToDepot(anyPath)
+        ? this.clientToLocal(anyPath, cwd)
+        : undefined;
+    }
+    if (anyPath.startsWith("//")) {
+      return this.depotToLocal(anyPath, cwd);
+    }
+    return this.localToDepot(anyPath) ? anyPath : undefined;
+  }
+
+  // Like p4: the Root, unless the current directory is under an AltRoot instead
+  private rootFor(cwd: string | undefined): string | undefined {
+    const containing =
+      cwd !== undefined
+        ? this.roots.find((root) => isInside(path.relative(root, cwd)))
+        : undefined;
+    return containing ?? this.roots[0];
+  }
+
+  // Maps a path from one side of the view to the other. The last line matching
+  // the path decides, and the result must map back: a later line that maps the
+  // result elsewhere hides the mapping, unless that line is an overlay.
+  private translate(
+    pathToMap: string,
+    from: Side,
+    to: Side,
+  ): string | undefined {
+    const result = this.lastMatch(pathToMap, from, to);
+    if (!result) {
+      return undefined;
+    }
+    for (let i = this.mappings.length - 1; i >= 0; i--) {
+      const mapping = this.mappings[i];
+      const back = this.apply(mapping, result, to, from);
+      if (back === undefined) {
+        continue;
+      }
+      if (mapping.type === "exclude") {
+        return undefined;
+      }
+      if (this.samePath(back, pathToMap)) {
+        return result;
+      }
+      if (mapping.type !== "overlay" || from === "client") {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  private lastMatch(
+    pathToMap: string,
+    from: Side,
+    to: Side,
+  ): string | undefined {
+    for (let i = this.mappings.length - 1; i >= 0; i--) {
+      const mapping = this.mappings[i];
+      const result = this.apply(mapping, pathToMap, from, to);
+      if (result !== undefined) {
+        return mapping.type === "exclude" ? undefined : result;
+      }
+    }
+    return undefined;
+  }
+
+  private apply(
+    mapping: CompiledMapping,
+    pathToMap: string,
+    from: Side,
+    to: Side,
+  ): string | undefined {
+    const pattern =
+      from === "depot" ? mapping.depotPattern : mapping.clientPattern;
+    const match = pattern.regex.exec(pathToMap);
+    if (!match) {
+      return undefined;
+    }
+    return substitute(mapping[to], pattern, match.slice(1));
+  }
+
+  private samePath(a: string, b: string): boolean {
+    return this.caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+  }
+
+  private startsWith(value: string, prefix: string): boolean {
+    return this.caseInsensitive
+      ? value.toLowerCase().startsWith(prefix.toLowerCase())
+      : value.startsWith(prefix);
+  }
+}
+
+/**
+ * Reads the current client's spec and the server's case handling, for mapping
+ * paths locally. Uses `p4 -G info` and `p4 -G client -o`.
+ * @param context Object containing execute function and outputChannel.
+ * @param options P4 options (P4CLIENT in particular).
+ * @returns A mapper for the client's View.
+ */
+export async function p4clientView(
+  context: P4CommandContext,
+  options: P4Options = {},
+): Promise<ClientViewMapper> {
+  const commandDesc = "p4 -G client -o";
+  context.outputChannel.appendLine(`Executing \`${commandDesc}\`...`);
+  try {
+    const info = await context.execute("info", [], options, true, undefined, {
+      token: context.token,
+    });
+    const caseInsensitive =
+      info.parsedOutput?.[0]?.caseHandling === "insensitive";
+
+    const result = await context.execute(
+      "client",
+      ["-o"],
+      options,
+      true,
+      undefined,
+      { token: context.token },
+    );
+    const record = Array.isArray(result.parsedOutput)
+      ? result.parsedOutput[0]
+      : undefined;
+    if (!record) {
+      throw new Error(`${commandDesc} did not return a spec.`);
+    }
+    const fields = specFieldsFromRecord(record);
+    const asList = (value: string | string[] | undefined) =>
+      Array.isArray(value) ? value : value ? [value] : [];
+    const roots = [String(fields.Root ?? ""), ...asList(fields.AltRoots)];
+    const mapper = new ClientViewMapper(
+      String(fields.Client),
+      roots.filter((root) => root && root !== "null"),
+      asList(fields.View),
+      caseInsensitive,
+    );
+    context.outputChannel.appendLine(
+      `\`${commandDesc}\`: client ${fields.Client} with ${asList(fields.View).length} View line(s).`,
+    );
+    return mapper;
+  } catch (error: any) {
+    context.outputChannel.appendLine(
+      `Error executing \`${commandDesc}\`: ${error.message}`,
+    );
+    throw error;
+  }
+}
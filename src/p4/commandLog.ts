@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+import { P4Options } from "./p4Types";
+
+const REDACTED = "********";
+// Keeps a long-running session from holding on to every byte p4 ever printed
+const MAX_OUTPUT_CHARS = 16 * 1024;
+
+// Everything needed to run a logged command again. Holds the original, unredacted arguments.
+export interface P4CommandRerun {
+  command: string;
+  args: string[];
+  options: P4Options;
+}
+
+// One p4 process run, as shown in the command log view
+export interface P4CommandLogEntry {
+  id: number;
+  command: string;
+  args: string[]; // Passwords redacted
+  useTaggedOutput: boolean; // Run with -G
+  cwd?: string;
+  startTime: Date;
+  durationMs: number;
+  exitCode?: number; // Unset if p4 could not be started or was cancelled
+  error?: string; // Failure message, if the command failed
+  stdoutBytes: number;
+  stderrBytes: number;
+  stdout: string; // Truncated to MAX_OUTPUT_CHARS
+  stderr: string; // Truncated to MAX_OUTPUT_CHARS
+  hadInput: boolean; // Stdin is never kept; it can hold a password or a whole spec
+  rerun?: P4CommandRerun; // Unset for commands that read stdin
+}
+
+/**
+ * Returns a copy of a p4 argument list with passwords replaced.
+ * Covers the global `-P <password>` option, which is the only argument p4 takes a password in.
+ * @param args Arguments as passed to p4.
+ */
+export function redactArgs(args: string[]): string[] {
+  return args.map((arg, i) =>
+    args[i - 1] === "-P"
+      ? REDACTED
+      : arg.startsWith("-P") && arg.length > 2
+        ? `-P${REDACTED}`
+        : arg,
+  );
+}
+
+/**
+ * Returns a copy of P4 options with the password replaced, for logging.
+ * @param options P4 options as passed to execute.
+ */
+export function redactOptions(options: P4Options): P4Options {
+  return options.P4PASSWD ? { ...options, P4PASSWD: REDACTED } : options;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS
+    ? `${text.substring(0, MAX_OUTPUT_CHARS)}\n... (${text.length - MAX_OUTPUT_CHARS} more characters)`
+    : text;
+}
+
+/**
+ * In-memory history of the most recent p4 commands, newest first.
+ */
+export class CommandLog implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private _entries: P4CommandLogEntry[] = [];
+  private nextId = 1;
+
+  /**
+   * @param maxEntries Oldest entries are dropped beyond this many.
+   */
+  constructor(private readonly maxEntries = 200) {}
+
+  public get entries(): readonly P4CommandLogEntry[] {
+    return this._entries;
+  }
+
+  /**
+   * Records a finished command. Arguments are redacted and output truncated here,
+   * so callers can pass them exactly as run.
+   */
+  public add(
+    entry: Omit<P4CommandLogEntry, "id" | "args" | "rerun"> & {
+      args: string[];
+      options: P4Options;
+    },
+  ): P4CommandLogEntry {
+    const { options, ...fields } = entry;
+    const logged: P4CommandLogEntry = {
+      ...fields,
+      id: this.nextId++,
+      args: redactArgs(entry.args),
+      stdout: truncate(entry.stdout),
+      stderr: truncate(entry.stderr),
+      rerun: entry.hadInput
+        ? undefined
+        : {
+            command: entry.command,
+            args: entry.args,
+            options,
+          },
+    };
+    this._entries.unshift(logged);
+    if (this._entries.length > this.maxEntries) {
+      this._entries.length = this.maxEntries;
+    }
+    this._onDidChange.fire();
+    return logged;
+  }
+
+  public clear(): void {
+    this._entries = [];
+    this._onDidChange.fire();
+  }
+
+  dispose() {
+    this._onDidChange.dispose();
+    this._entries = [];
+  }
+}
@@ -0,0 +1,124 @@
+import { P4CommandPriority } from "./p4Types";
+
+interface QueuedTask {
+  run: () => void;
+  priority: P4CommandPriority;
+  key?: string;
+}
+
+/**
+ * Limits how many p4 processes run at once. Waiting user-initiated commands
+ * always start before waiting background ones; within a priority, order is FIFO.
+ * Tasks scheduled with the same key while one is queued or running share its result.
+ */
+export class CommandScheduler {
+  private running = 0;
+  private readonly queues: Record<P4CommandPriority, QueuedTask[]> = {
+    user: [],
+    background: [],
+  };
+  private readonly inFlight = new Map<
+    string,
+    { promise: Promise<any>; task?: QueuedTask }
+  >();
+
+  /**
+   * @param maxConcurrent Maximum number of tasks running at once; 0 means unlimited.
+   * @param onQueued Optional callback when a task has to wait (for throttling diagnostics).
+   */
+  constructor(
+    private maxConcurrent: number,
+    private readonly onQueued?: (waiting: number, running: number) => void,
+  ) {}
+
+  public setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = maxConcurrent;
+    this.drain();
+  }
+
+  public get pendingCount(): number {
+    return this.queues.user.length + this.queues.background.length;
+  }
+
+  /**
+   * Runs a task once a slot is free.
+   * @param task Starts the work; called at most once.
+   * @param priority Queue to wait in.
+   * @param key If set, identical keys are coalesced into a single run while it is pending.
+   */
+  public schedule<T>(
+    task: () => Promise<T>,
+    priority: P4CommandPriority,
+    key?: string,
+  ): Promise<T> {
+    if (key) {
+      const existing = this.inFlight.get(key);
+      if (existing) {
+        // A user waiting on a queued background run should not wait behind other background work
+        if (priority === "user" && existing.task?.priority === "background") {
+          this.promote(existing.task);
+        }
+        return existing.promise;
+      }
+    }
+
+    let queued: QueuedTask | undefined;
+    const promise = new Promise<T>((resolve, reject) => {
+      queued = {
+        priority,
+        key,
+        run: () => {
+          this.running++;
+          if (key) {
+            const entry = this.inFlight.get(key);
+            if (entry) {
+              entry.task = undefined; // Started; no longer promotable
+            }
+          }
+          let started: Promise<T>;
+          try {
+            started = task();
+          } catch (error) {
+            started = Promise.reject(error);
+          }
+          started.then(resolve, reject).finally(() => {
+            this.running--;
+            if (key) {
+              this.inFlight.delete(key);
+            }
+            this.drain();
+          });
+        },
+      };
+    });
+
+    if (key) {
+      this.inFlight.set(key, { promise, task: queued });
+    }
+    this.queues[priority].push(queued!);
+    this.drain();
+    if (this.pendingCount > 0) {
+      this.onQueued?.(this.pendingCount, this.running);
+    }
+    return promise;
+  }
+
+  private promote(task: QueuedTask): void {
+    const index = this.queues.background.indexOf(task);
+    if (index >= 0) {
+      this.queues.background.splice(index, 1);
+      task.priority = "user";
+      this.queues.user.push(task);
+    }
+  }
+
+  private drain(): void {
+    while (this.maxConcurrent <= 0 || this.running < this.maxConcurrent) {
+      const next = this.queues.user.shift() ?? this.queues.background.shift();
+      if (!next) {
+        return;
+      }
+      next.run();
+    }
+  }
+}
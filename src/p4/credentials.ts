@@ -0,0 +1,48 @@
+import * as os from "os";
+import * as vscode from "vscode";
+import { P4Options } from "./p4Types";
+
+const SECRET_PREFIX = "perforce.password";
+
+/**
+ * The server and user a credential belongs to, with p4's own defaults filled in
+ * for anything not configured.
+ * @param options Resolved P4 options for a workspace.
+ */
+export function credentialTarget(options: P4Options): {
+  port: string;
+  user: string;
+} {
+  return {
+    port: options.P4PORT || "perforce:1666",
+    user: options.P4USER || os.userInfo().username,
+  };
+}
+
+/**
+ * Passwords kept in VS Code's SecretStorage (the OS keychain), keyed by P4PORT and user.
+ * They are only ever given to `p4 login`; every other command runs on the ticket it creates.
+ */
+export class P4CredentialStore {
+  constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  private key(options: P4Options): string {
+    const { port, user } = credentialTarget(options);
+    return `${SECRET_PREFIX}:${port}:${user}`;
+  }
+
+  public async getPassword(options: P4Options): Promise<string | undefined> {
+    return this.secrets.get(this.key(options));
+  }
+
+  public async storePassword(
+    options: P4Options,
+    password: string,
+  ): Promise<void> {
+    await this.secrets.store(this.key(options), password);
+  }
+
+  public async deletePassword(options: P4Options): Promise<void> {
+    await this.secrets.delete(this.key(options));
+  }
+}
@@ -6,13 +6,19 @@ import {
   P4StatusFile,
   P4CommandContext,
   P4DescribeResult,
+  P4BatchResult,
+  P4ReconcileFile,
 } from "./p4Types";
+import { P4Error, classifyP4Error, isP4Error } from "./p4Errors";
+import { chunk, executeBatched } from "./batching";
+import { getMaxFilesPerCommand } from "./p4Utils";
 
 // Re-export the context type so other command modules can use it
 export { P4CommandContext };
 
 /**
  * Uses `p4 where` to find the local filesystem path for a given depot or client path.
+ * Maps it in-process instead when the context carries the client view.
  * (Formerly PerforceService.getLocalPath)
  * @param context Object containing execute function and outputChannel.
  * @param depotOrClientPath The depot or client path (e.g., //depot/main/file.c or //clientname/main/file.c)
@@ -27,6 +33,12 @@ export async function p4where(
   if (!depotOrClientPath) {
     return null;
   }
+  // The loaded view may be out of date (the spec can change after it was read),
+  // so paths it does not map are still asked of the server
+  const local = context.clientView?.toLocal(depotOrClientPath, options.cwd);
+  if (local) {
+    return local;
+  }
   context.outputChannel.appendLine(
     `Executing \`p4 where ${depotOrClientPath}\`...`,
   );
@@ -37,6 +49,8 @@ export async function p4where(
       [depotOrClientPath],
       options,
       false,
+      undefined,
+      { token: context.token },
     );
 
     if (result.stderr) {
@@ -102,6 +116,9 @@ export async function p4where(
     );
     return null;
   } catch (error: any) {
+    if (isP4Error(error, "cancelled")) {
+      throw error; // Cancelled is not the same as unmapped
+    }
     // Handle errors from execute() itself (e.g., p4 command not found)
     context.outputChannel.appendLine(
       `Error executing \`p4 where ${depotOrClientPath}\`: ${error.message}`,
@@ -124,7 +141,14 @@ export async function p4opened(
 ): Promise<P4OpenedFile[]> {
   context.outputChannel.appendLine("Executing `p4 opened -G`...");
   try {
-    const result = await context.execute("opened", [], options, true);
+    const result = await context.execute(
+      "opened",
+      [],
+      options,
+      true,
+      undefined,
+      { token: context.token },
+    );
 
     if (
       result.stderr &&
@@ -175,6 +199,9 @@ export async function p4opened(
       return [];
     }
   } catch (error: any) {
+    if (isP4Error(error, "cancelled")) {
+      throw error; // A cancelled listing is not an empty one
+    }
     context.outputChannel.appendLine(
       `Error executing \`p4 opened -G\`: ${error.message}`,
     );
@@ -197,7 +224,14 @@ export async function p4status(
   context.outputChannel.appendLine("Executing `p4 status -G`...");
   try {
     // p4 status might need specific paths, but defaults to cwd if not specified
-    const result = await context.execute("status", [], options, true);
+    const result = await context.execute(
+      "status",
+      [],
+      options,
+      true,
+      undefined,
+      { token: context.token },
+    );
 
     if (result.stderr) {
       // Log stderr but potentially continue if there is parsed data
@@ -231,6 +265,9 @@ export async function p4status(
       return [];
     }
   } catch (error: any) {
+    if (isP4Error(error, "cancelled")) {
+      throw error;
+    }
     context.outputChannel.appendLine(
       `Error executing \`p4 status -G\`: ${error.message}`,
     );
@@ -242,249 +279,241 @@ export async function p4status(
 }
 
 /**
- * Opens a file for add. Uses `p4 add <filePath>`.
- * (Formerly PerforceService.add)
- * @param context Object containing execute function and outputChannel.
- * @param filePath The absolute local path of the file to add.
- * @param options P4 options (cwd, P4CLIENT, changelist etc.).
- * @returns A promise that resolves on success, rejects on failure.
+ * Runs a file command over a list of files in batches of `perforce.maxFilePerCommand`,
+ * logging the merged outcome.
  */
-export async function p4add(
+async function runFileCommand(
   context: P4CommandContext,
-  filePath: string,
-  options: P4Options = {},
-): Promise<void> {
-  if (!filePath) {
-    throw new Error("File path must be provided for p4 add.");
+  command: string,
+  filePaths: string | string[],
+  options: P4Options,
+  settled?: RegExp,
+): Promise<P4BatchResult> {
+  const files = typeof filePaths === "string" ? [filePaths] : filePaths;
+  if (files.length === 0 || files.some((file) => !file)) {
+    throw new Error(`File path must be provided for p4 ${command}.`);
   }
-  context.outputChannel.appendLine(`Executing \`p4 add ${filePath}\`...`);
+  const target = files.length === 1 ? files[0] : `${files.length} files`;
+  context.outputChannel.appendLine(`Executing \`p4 ${command} ${target}\`...`);
   try {
-    // Specify the file path as an argument
-    // No tagged output needed for basic add
-    const result = await context.execute("add", [filePath], options, false);
-
-    // Check stderr for potential warnings even if command succeeds
-    if (result.stderr) {
+    const result = await executeBatched(
+      context,
+      command,
+      [],
+      files,
+      options,
+      getMaxFilesPerCommand(),
+      settled,
+    );
+    for (const failure of result.failed) {
       context.outputChannel.appendLine(
-        `Warning/Info during \`p4 add ${filePath}\`: ${result.stderr}`,
+        `  \`p4 ${command}\` failed for ${failure.file}: ${failure.message}`,
       );
-      // Check for common non-error messages if needed
-      if (result.stderr.includes("currently opened for add")) {
-        // This might not be considered an error by the caller
-        context.outputChannel.appendLine("File was already opened for add.");
-        return; // Or handle as success? Decide based on desired behavior
-      }
     }
     context.outputChannel.appendLine(
-      `\`p4 add ${filePath}\` executed successfully.`,
+      `\`p4 ${command} ${target}\` executed: ${result.succeeded.length} succeeded, ${result.failed.length} failed.`,
     );
+    return result;
   } catch (error: any) {
-    // execute() already logs the error
     context.outputChannel.appendLine(
-      `Error executing \`p4 add ${filePath}\`: ${error.message}`,
+      `Error executing \`p4 ${command} ${target}\`: ${error.message}`,
     );
-    // Rethrow the error to indicate failure
     throw error;
   }
 }
 
 /**
- * Opens a file for edit. Uses `p4 edit <filePath>`.
+ * Opens files for add. Uses `p4 add <files>`.
+ * (Formerly PerforceService.add)
+ * @param context Object containing execute function and outputChannel.
+ * @param filePaths The absolute local path(s) of the files to add.
+ * @param options P4 options (cwd, P4CLIENT, changelist etc.).
+ * @returns Per-file results; files already opened for add count as succeeded.
+ * @throws P4Error if the session fails (login, connection) or the command is cancelled.
+ */
+export async function p4add(
+  context: P4CommandContext,
+  filePaths: string | string[],
+  options: P4Options = {},
+): Promise<P4BatchResult> {
+  return runFileCommand(
+    context,
+    "add",
+    filePaths,
+    options,
+    /currently opened for add/,
+  );
+}
+
+/**
+ * Opens files for edit. Uses `p4 edit <files>`.
  * (Formerly PerforceService.edit)
  * @param context Object containing execute function and outputChannel.
- * @param filePath The absolute local path of the file to edit.
+ * @param filePaths The absolute local path(s) of the files to edit.
  * @param options P4 options (cwd, P4CLIENT, changelist, filetype etc.).
- * @returns A promise that resolves on success, rejects on failure.
+ * @returns Per-file results; files already opened for edit count as succeeded.
+ * @throws P4Error if the session fails (login, connection) or the command is cancelled.
  */
 export async function p4edit(
   context: P4CommandContext,
-  filePath: string,
+  filePaths: string | string[],
   options: P4Options = {},
-): Promise<void> {
-  if (!filePath) {
-    throw new Error("File path must be provided for p4 edit.");
-  }
-  context.outputChannel.appendLine(`Executing \`p4 edit ${filePath}\`...`);
-  try {
-    // Specify the file path as an argument
-    // No tagged output needed for basic edit
-    const result = await context.execute("edit", [filePath], options, false);
-
-    // Check stderr for potential warnings even if command succeeds
-    if (result.stderr) {
-      context.outputChannel.appendLine(
-        `Warning/Info during \`p4 edit ${filePath}\`: ${result.stderr}`,
-      );
-      // Check for common non-error messages
-      if (
-        result.stderr.includes("already opened for edit") ||
-        result.stderr.includes("can't edit exclusive file")
-      ) {
-        // These might not be fatal errors depending on context
-        context.outputChannel.appendLine(
-          "File was already opened or is exclusive.",
-        );
-        // Decide if we should return or throw based on requirements
-        return;
-      }
-    }
-    context.outputChannel.appendLine(
-      `\`p4 edit ${filePath}\` executed successfully.`,
-    );
-  } catch (error: any) {
-    // execute() already logs the error
-    context.outputChannel.appendLine(
-      `Error executing \`p4 edit ${filePath}\`: ${error.message}`,
-    );
-    // Rethrow the error to indicate failure
-    throw error;
-  }
+): Promise<P4BatchResult> {
+  return runFileCommand(
+    context,
+    "edit",
+    filePaths,
+    options,
+    /(currently|already) opened for edit/,
+  );
 }
 
 /**
- * Opens a file for delete. Uses `p4 delete <filePath>`.
+ * Opens files for delete. Uses `p4 delete <files>`.
  * (Formerly PerforceService.delete)
  * @param context Object containing execute function and outputChannel.
- * @param filePath The absolute local path of the file to delete.
+ * @param filePaths The absolute local path(s) of the files to delete.
  * @param options P4 options (cwd, P4CLIENT, changelist etc.).
- * @returns A promise that resolves on success, rejects on failure.
+ * @returns Per-file results; files already opened for delete count as succeeded.
+ * @throws P4Error if the session fails (login, connection) or the command is cancelled.
  */
 export async function p4delete(
   context: P4CommandContext,
-  filePath: string,
+  filePaths: string | string[],
   options: P4Options = {},
-): Promise<void> {
-  if (!filePath) {
-    throw new Error("File path must be provided for p4 delete.");
-  }
-  context.outputChannel.appendLine(`Executing \`p4 delete ${filePath}\`...`);
-  try {
-    // Specify the file path as an argument
-    // No tagged output needed for basic delete
-    const result = await context.execute("delete", [filePath], options, false);
-
-    // Check stderr for potential warnings
-    if (result.stderr) {
-      context.outputChannel.appendLine(
-        `Warning/Info during \`p4 delete ${filePath}\`: ${result.stderr}`,
-      );
-      if (result.stderr.includes("already opened for delete")) {
-        context.outputChannel.appendLine("File was already opened for delete.");
-        return; // Treat as success
-      }
-    }
-    context.outputChannel.appendLine(
-      `\`p4 delete ${filePath}\` executed successfully.`,
-    );
-  } catch (error: any) {
-    context.outputChannel.appendLine(
-      `Error executing \`p4 delete ${filePath}\`: ${error.message}`,
-    );
-    // Handle specific errors? e.g., file not on client, file not synced.
-    // Rethrow for now.
-    throw error;
-  }
+): Promise<P4BatchResult> {
+  return runFileCommand(
+    context,
+    "delete",
+    filePaths,
+    options,
+    /(currently|already) opened for delete/,
+  );
 }
 
 /**
- * Reverts an opened file to its previous state. Uses `p4 revert <filePath>`.
+ * Reverts opened files to their previous state. Uses `p4 revert <files>`.
  * (Formerly PerforceService.revert)
  * @param context Object containing execute function and outputChannel.
- * @param filePath The absolute local path of the file to revert.
- * @param options P4 options (cwd, P4CLIENT, changelist etc.). Use -n for preview.
- * @returns A promise that resolves on success, rejects on failure.
+ * @param filePaths The absolute local path(s) of the files to revert.
+ * @param options P4 options (cwd, P4CLIENT, changelist etc.).
+ * @returns Per-file results; files that were not opened count as succeeded.
+ * @throws P4Error if the session fails (login, connection) or the command is cancelled.
  */
 export async function p4revert(
   context: P4CommandContext,
-  filePath: string,
+  filePaths: string | string[],
   options: P4Options = {},
-): Promise<void> {
-  if (!filePath) {
-    throw new Error("File path must be provided for p4 revert.");
-  }
-  context.outputChannel.appendLine(`Executing \`p4 revert ${filePath}\`...`);
-  try {
-    // Specify the file path as an argument
-    // Use -k? -c? Check revert options if more control is needed.
-    // No tagged output needed for basic revert
-    const result = await context.execute("revert", [filePath], options, false);
+): Promise<P4BatchResult> {
+  return runFileCommand(
+    context,
+    "revert",
+    filePaths,
+    options,
+    /not opened on this client/,
+  );
+}
 
-    // Check stderr for non-error info
-    if (result.stderr) {
-      context.outputChannel.appendLine(
-        `Info during \`p4 revert ${filePath}\`: ${result.stderr}`,
-      );
-      // Check for 'file(s) not opened on this client' - this is success in revert context
-      if (result.stderr.includes("not opened on this client")) {
-        context.outputChannel.appendLine(
-          "File was not opened, revert had no effect.",
-        );
-        return; // Treat as success
-      }
-    }
-    // Stdout often confirms the revert, e.g., "//depot/path#rev - was edit, reverted"
-    if (result.stdout) {
+/**
+ * Syncs workspace files to the depot. Uses `p4 sync [files]`.
+ * (Formerly PerforceService.sync)
+ * @param context Object containing execute function and outputChannel.
+ * @param filePaths Optional array of absolute local paths or depot paths to sync. Syncs the entire client if empty or not provided.
+ * @param options P4 options (cwd, P4CLIENT, etc.).
+ * @returns Per-file results; files already up to date count as succeeded.
+ * @throws P4Error if syncing the entire client fails, the session fails, or the command is cancelled.
+ */
+export async function p4sync(
+  context: P4CommandContext,
+  filePaths: string[] = [],
+  options: P4Options = {},
+): Promise<P4BatchResult> {
+  const target = filePaths.length > 0 ? `${filePaths.length} path(s)` : "..."; // No paths syncs the whole client
+  context.outputChannel.appendLine(`Executing \`p4 sync ${target}\`...`);
+  try {
+    const result = await executeBatched(
+      context,
+      "sync",
+      [],
+      filePaths,
+      options,
+      getMaxFilesPerCommand(),
+      /up-to-date/,
+    );
+    for (const failure of result.failed) {
       context.outputChannel.appendLine(
-        `\`p4 revert ${filePath}\` output: ${result.stdout.trim()}`,
+        `  \`p4 sync\` failed for ${failure.file}: ${failure.message}`,
       );
     }
     context.outputChannel.appendLine(
-      `\`p4 revert ${filePath}\` executed successfully (or file was not open).`,
+      `\`p4 sync ${target}\` executed: ${result.succeeded.length} file(s) synced or up-to-date, ${result.failed.length} failed.`,
     );
+    return result;
   } catch (error: any) {
     context.outputChannel.appendLine(
-      `Error executing \`p4 revert ${filePath}\`: ${error.message}`,
+      `Error executing \`p4 sync ${target}\`: ${error.message}`,
     );
-    // If revert fails because the file needs reconcile, the caller might need to handle this.
+    // Handle specific errors? e.g., "must revert before syncing"
     throw error;
   }
 }
 
 /**
- * Syncs workspace files to the depot. Uses `p4 sync [filePaths...]`.
- * (Formerly PerforceService.sync)
+ * Opens files whose local state differs from the depot: edited, new or missing
+ * files become edit, add or delete. Uses `p4 -G reconcile -e -a -d [-n] [-c <change>] <files>`.
  * @param context Object containing execute function and outputChannel.
- * @param filePaths Optional array of absolute local paths or depot paths to sync. Syncs the entire client if empty or not provided.
- * @param options P4 options (cwd, P4CLIENT, etc.). Use -n for preview, -f for force.
- * @returns A promise that resolves on success, rejects on failure.
+ * @param filePaths Absolute local paths to reconcile.
+ * @param options P4 options (cwd, P4CLIENT, etc.).
+ * @param reconcileOptions preview: only report what would be opened (-n); changelist: open into this change (-c).
+ * @returns The files p4 opened (or would open), with the action for each.
  */
-export async function p4sync(
+export async function p4reconcile(
   context: P4CommandContext,
-  filePaths: string[] = [],
+  filePaths: string[],
   options: P4Options = {},
-): Promise<void> {
-  const target = filePaths.length > 0 ? filePaths.join(" ") : "..."; // Use '...' to sync all if no paths given
-  context.outputChannel.appendLine(`Executing \`p4 sync ${target}\`...`);
-  try {
-    // Pass file paths as arguments if provided
-    // Tagged output (-G) is available for sync but complex; skipping for now
-    const result = await context.execute("sync", filePaths, options, false);
+  reconcileOptions: { preview?: boolean; changelist?: string } = {},
+): Promise<P4ReconcileFile[]> {
+  const flags = ["-e", "-a", "-d"];
+  if (reconcileOptions.preview) {
+    flags.push("-n");
+  }
+  if (reconcileOptions.changelist) {
+    flags.push("-c", reconcileOptions.changelist);
+  }
+  const commandDesc = `p4 reconcile ${flags.join(" ")} (${filePaths.length} path(s))`;
+  context.outputChannel.appendLine(`Executing \`${commandDesc}\`...`);
 
-    // Sync output can be verbose. Log stdout and stderr.
-    if (result.stdout) {
-      context.outputChannel.appendLine(
-        `\`p4 sync ${target}\` stdout:\n${result.stdout.trim()}`,
-      );
-    }
-    if (result.stderr) {
-      // Stderr might contain 'up-to-date' messages which aren't errors
-      context.outputChannel.appendLine(
-        `\`p4 sync ${target}\` stderr:\n${result.stderr.trim()}`,
+  const files: P4ReconcileFile[] = [];
+  try {
+    for (const batch of chunk(filePaths, getMaxFilesPerCommand())) {
+      await context.execute(
+        "reconcile",
+        [...flags, ...batch],
+        options,
+        true,
+        undefined,
+        {
+          token: context.token,
+          onRecord: (record) => {
+            if (record.clientFile && record.action) {
+              files.push({
+                depotFile: record.depotFile,
+                clientFile: record.clientFile,
+                action: record.action,
+              });
+            }
+          },
+        },
       );
-      if (result.stderr.includes("file(s) up-to-date")) {
-        // This is a common success case
-      } else {
-        // Log other stderr as potential warnings/info
-      }
     }
-
-    // Basic success check: command didn't throw
-    context.outputChannel.appendLine(`\`p4 sync ${target}\` executed.`);
+    context.outputChannel.appendLine(
+      `\`${commandDesc}\` ${reconcileOptions.preview ? "found" : "opened"} ${files.length} file(s).`,
+    );
+    return files;
   } catch (error: any) {
     context.outputChannel.appendLine(
-      `Error executing \`p4 sync ${target}\`: ${error.message}`,
+      `Error executing \`${commandDesc}\`: ${error.message}`,
     );
-    // Handle specific errors? e.g., "must revert before syncing"
     throw error;
   }
 }
@@ -520,6 +549,8 @@ export async function p4move(
       [fromFilePath, toFilePath],
       options,
       false,
+      undefined,
+      { token: context.token },
     );
 
     // Check stderr for info/warnings
@@ -562,7 +593,14 @@ export async function p4newChangeSpec(
   try {
     // -o outputs the spec to stdout
     // No tagged output
-    const result = await context.execute("change", ["-o"], options, false);
+    const result = await context.execute(
+      "change",
+      ["-o"],
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     if (result.stderr) {
       // Log stderr as warning/info, but stdout should still have the spec
@@ -614,6 +652,8 @@ export async function p4editChangeSpec(
       ["-o", changelist],
       options,
       false,
+      undefined,
+      { token: context.token },
     );
 
     if (result.stderr) {
@@ -674,6 +714,7 @@ export async function p4saveChangeSpec(
       options,
       false,
       specString,
+      { token: context.token },
     );
 
     // Successful save typically outputs "Change X created." or "Change X updated." to stdout.
@@ -745,7 +786,14 @@ export async function p4submit(
 
   try {
     // Submit doesn't typically use tagged output, but output can be complex (locking, triggers, errors)
-    const result = await context.execute("submit", args, options, false);
+    const result = await context.execute(
+      "submit",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     // Submit output varies greatly depending on success, failure, triggers, etc.
     // Successful submit usually indicates submitted change number in stderr/stdout.
@@ -763,13 +811,17 @@ export async function p4submit(
         // Consider this success or a specific status? Returning null for now.
         return null;
       }
-      if (result.stderr.includes("must resolve")) {
+      if (classifyP4Error(result.stderr) === "needsResolve") {
         context.outputChannel.appendLine(
           "Submit failed: Files must be resolved first.",
         );
-        // Throw a specific error?
-        throw new Error(
+        throw new P4Error(
           "Submit failed: Files must be resolved first. Details in output channel.",
+          {
+            command: "submit",
+            category: "needsResolve",
+            exitCode: result.exitCode,
+          },
         );
       }
     }
@@ -836,6 +888,8 @@ export async function p4describe(
       [changelist],
       options,
       true,
+      undefined,
+      { token: context.token },
     );
 
     if (result.stderr) {
@@ -879,6 +933,63 @@ export async function p4describe(
   }
 }
 
+/**
+ * Retrieves the contents of a file revision from the depot. Uses `p4 print -q <fileSpec>`.
+ * @param context Object containing execute function and outputChannel.
+ * @param fileSpec Path and revision specifier (e.g., //depot/path#have, //depot/path@=change, //depot/path@1234).
+ * @param options P4 options (cwd, P4CLIENT, etc.).
+ * @returns A promise that resolves to the file contents.
+ * @throws Error if the file revision does not exist or the command fails.
+ */
+export async function p4print(
+  context: P4CommandContext,
+  fileSpec: string,
+  options: P4Options = {},
+): Promise<string> {
+  if (!fileSpec) {
+    throw new Error("File specifier must be provided for p4 print.");
+  }
+  // -q suppresses the one-line header, so stdout is exactly the file content
+  const args = ["-q", fileSpec];
+  const commandDesc = `p4 print ${args.join(" ")}`;
+  context.outputChannel.appendLine(`Executing \`${commandDesc}\`...`);
+
+  try {
+    const result = await context.execute(
+      "print",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
+
+    if (result.stderr) {
+      context.outputChannel.appendLine(
+        `Warning/Info during \`${commandDesc}\`: ${result.stderr}`,
+      );
+      const category = classifyP4Error(result.stderr);
+      if (category === "noSuchFile" || category === "notInClientView") {
+        throw new P4Error(
+          `Print failed: '${fileSpec}' not found in the depot.`,
+          {
+            command: "print",
+            category,
+            exitCode: result.exitCode,
+          },
+        );
+      }
+    }
+
+    return result.stdout ?? "";
+  } catch (error: any) {
+    context.outputChannel.appendLine(
+      `Error executing \`${commandDesc}\`: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
 /**
  * Performs a diff between two Perforce file revisions. Uses `p4 diff2 [flags] <file1>[rev] <file2>[rev]`.
  * This is often more useful than `p4 diff` for comparing specific revisions (depot, have, shelved).
@@ -906,7 +1017,14 @@ export async function p4diff2(
 
   try {
     // Diff output is typically consumed raw, so no -G
-    const result = await context.execute("diff2", args, options, false);
+    const result = await context.execute(
+      "diff2",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     // Diff commands often report differences via exit codes but also stdout/stderr.
     // 'no differences' might be reported to stderr but is not an error.
@@ -915,12 +1033,11 @@ export async function p4diff2(
         `Warning/Info during \`${commandDesc}\`: ${result.stderr}`,
       );
       // Check for common errors like "file not found"
-      if (
-        result.stderr.includes("no such file") ||
-        result.stderr.includes("not in client view")
-      ) {
-        throw new Error(
+      const category = classifyP4Error(result.stderr);
+      if (category === "noSuchFile" || category === "notInClientView") {
+        throw new P4Error(
           `Diff failed: One or both files not found or not mapped (${file1}, ${file2}).`,
+          { command: "diff2", category, exitCode: result.exitCode },
         );
       }
     }
@@ -929,10 +1046,7 @@ export async function p4diff2(
     // Return stdout which contains the actual diff text
     return result.stdout ?? ""; // Return empty string if stdout is null/undefined
   } catch (error: any) {
-    // execute might throw if diff returns non-zero exit code for differences,
-    // depending on how reckless-node-perforce handles it.
-    // We might need to catch specific exit codes if differences are reported as errors.
-    // For now, assume non-zero exit code indicates a real error.
+    // p4 diff2 exits 0 when the files differ, so a non-zero exit code is a real error.
     context.outputChannel.appendLine(
       `Error executing \`${commandDesc}\`: ${error.message}`,
     );
@@ -969,7 +1083,14 @@ export async function p4resolve(
   try {
     // Resolve has no tagged output
     // Output needs careful parsing to understand what happened (merged, yours, theirs, skipped, needs merge tool)
-    const result = await context.execute("resolve", args, options, false);
+    const result = await context.execute(
+      "resolve",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     // Both stdout and stderr can contain important information for resolve
     const output = `stdout:\n${result.stdout}\nstderr:\n${result.stderr}`;
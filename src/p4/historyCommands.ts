@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import { P4Options, P4Result, P4Annotation, P4FilelogEntry } from "./p4Types";
 // TODO: Define P4CommandContext centrally
 import { P4CommandContext } from "./fileCommands";
+import { P4Error, classifyP4Error } from "./p4Errors";
 
 /**
  * Retrieves per-line annotation data (blame) for a file. Uses `p4 annotate -c -q <filePath>`.
@@ -26,19 +27,25 @@ export async function p4annotate(
 
   try {
     // Annotate does not support -G
-    const result = await context.execute("annotate", args, options, false);
+    const result = await context.execute(
+      "annotate",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     if (result.stderr) {
       // Annotate might report errors like "no such file"
       context.outputChannel.appendLine(
         `Warning/Info during \`${commandDesc}\`: ${result.stderr}`,
       );
-      if (
-        result.stderr.includes("no such file") ||
-        result.stderr.includes("not in client view")
-      ) {
-        throw new Error(
+      const category = classifyP4Error(result.stderr);
+      if (category === "noSuchFile" || category === "notInClientView") {
+        throw new P4Error(
           `Annotate failed: File '${filePath}' not found or not in client view.`,
+          { command: "annotate", category, exitCode: result.exitCode },
         );
       }
       // Log other stderr but proceed if stdout exists
@@ -123,7 +130,14 @@ export async function p4filelog(
     // Use tagged output (-G)
     // Remove filePath from args array as it's passed separately to execute
     const cmdArgs = effectiveArgs.filter((arg) => arg !== filePath);
-    const result = await context.execute("filelog", cmdArgs, options, true); // Pass true for useTaggedOutput
+    const result = await context.execute(
+      "filelog",
+      cmdArgs,
+      options,
+      true, // useTaggedOutput
+      undefined,
+      { token: context.token },
+    );
 
     if (result.stderr) {
       context.outputChannel.appendLine(
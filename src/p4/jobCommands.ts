@@ -37,7 +37,14 @@ export async function p4fixJob(
 
   try {
     // No tagged output for fix
-    const result = await context.execute("fix", args, options, false);
+    const result = await context.execute(
+      "fix",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     // Check output - success message is usually "Job <jobId> fixed by change <changelist>"
     // or "Job <jobId> un-fixed for change <changelist>"
@@ -123,7 +130,14 @@ export async function p4job(
 
   try {
     // Job spec is output raw, no -G
-    const result = await context.execute("job", args, options, false);
+    const result = await context.execute(
+      "job",
+      args,
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
 
     if (result.stderr) {
       context.outputChannel.appendLine(
@@ -172,7 +186,14 @@ export async function p4jobs(
 
   try {
     // Use tagged output (-G)
-    const result = await context.execute("jobs", effectiveArgs, options, true);
+    const result = await context.execute(
+      "jobs",
+      effectiveArgs,
+      options,
+      true,
+      undefined,
+      { token: context.token },
+    );
 
     if (result.stderr) {
       context.outputChannel.appendLine(
@@ -0,0 +1,286 @@
+// Decoder for the Python marshal format written by `p4 -G`.
+// p4 writes one marshalled dictionary per record, back to back, with no framing;
+// a record can only be decoded once all of its bytes have arrived.
+
+import { decodeP4Output } from "./charset";
+
+export type MarshalValue =
+  string | number | boolean | null | MarshalValue[] | MarshalRecord;
+
+export interface MarshalRecord {
+  [key: string]: MarshalValue;
+}
+
+// Thrown internally when a record continues past the end of the available bytes
+class IncompleteInputError extends Error {
+  constructor(public readonly needed: number) {
+    super("Incomplete marshal data");
+  }
+}
+
+class MarshalReader {
+  private interned: string[] = [];
+
+  constructor(
+    private readonly buffer: Buffer,
+    public offset: number,
+    private readonly charset?: string,
+  ) {}
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.buffer.length) {
+      throw new IncompleteInputError(this.offset + length);
+    }
+  }
+
+  private readByte(): number {
+    this.ensure(1);
+    return this.buffer[this.offset++];
+  }
+
+  private readInt32(): number {
+    this.ensure(4);
+    const value = this.buffer.readInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  private readBytes(length: number): Buffer {
+    if (length < 0) {
+      throw new Error(`Invalid marshal length ${length}`);
+    }
+    this.ensure(length);
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  // Byte strings are in the command charset; unicode ('u') strings are always UTF-8
+  private readString(charset?: string): string {
+    const bytes = this.readBytes(this.readInt32());
+    return charset ? decodeP4Output(bytes, charset) : bytes.toString("utf8");
+  }
+
+  private readSequence(): MarshalValue[] {
+    const length = this.readInt32();
+    const items: MarshalValue[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(this.readValue());
+    }
+    return items;
+  }
+
+  private readLong(): number {
+    // Arbitrary-precision int: signed digit count, then base 2^15 digits, least significant first
+    const count = this.readInt32();
+    let value = 0;
+    for (let i = 0, scale = 1; i < Math.abs(count); i++, scale *= 0x8000) {
+      this.ensure(2);
+      value += this.buffer.readUInt16LE(this.offset) * scale;
+      this.offset += 2;
+    }
+    return count < 0 ? -value : value;
+  }
+
+  private readDict(): MarshalRecord {
+    const record: MarshalRecord = {};
+    for (;;) {
+      this.ensure(1);
+      if (this.buffer[this.offset] === 0x30 /* '0' */) {
+        this.offset++;
+        return record;
+      }
+      const key = this.readValue();
+      record[String(key)] = this.readValue();
+    }
+  }
+
+  public readValue(): MarshalValue {
+    const type = String.fromCharCode(this.readByte());
+    switch (type) {
+      case "{":
+        return this.readDict();
+      case "s":
+        return this.readString(this.charset);
+      case "u":
+        return this.readString();
+      case "t": {
+        const value = this.readString(this.charset);
+        this.interned.push(value);
+        return value;
+      }
+      case "R": {
+        const value = this.interned[this.readInt32()];
+        if (value === undefined) {
+          throw new Error("Invalid marshal string reference");
+        }
+        return value;
+      }
+      case "i":
+        return this.readInt32();
+      case "I": {
+        this.ensure(8);
+        const value = Number(this.buffer.readBigInt64LE(this.offset));
+        this.offset += 8;
+        return value;
+      }
+      case "l":
+        return this.readLong();
+      case "g": {
+        this.ensure(8);
+        const value = this.buffer.readDoubleLE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case "f":
+        return parseFloat(this.readBytes(this.readByte()).toString("latin1"));
+      case "[":
+      case "(":
+      case "<":
+      case ">":
+        return this.readSequence();
+      case "N":
+        return null;
+      case "T":
+        return true;
+      case "F":
+        return false;
+      default:
+        throw new Error(
+          `Unsupported marshal type '${type}' at offset ${this.offset - 1}`,
+        );
+    }
+  }
+}
+
+/**
+ * Incremental decoder for a stream of marshalled values.
+ * Feed stdout chunks as they arrive; each call returns the values completed by that chunk.
+ */
+export class MarshalDecoder {
+  /** @param charset P4CHARSET (or P4COMMANDCHARSET) of the output's strings; utf8 if unset. */
+  constructor(private readonly charset?: string) {}
+
+  private chunks: Buffer[] = [];
+  private buffered = 0; // Total length of chunks
+  // Buffered length worth another attempt at an incomplete value; each attempt
+  // re-reads the value from its first byte, so waiting for the buffer to double
+  // keeps a large value (e.g. `describe` with diffs) linear
+  private retryAt = 0;
+
+  /**
+   * Adds bytes to the stream and decodes every value that is now complete.
+   * @param chunk The next bytes of marshal data.
+   * @returns The newly completed values, in stream order.
+   * @throws Error if the data is not valid marshal output.
+   */
+  public push(chunk: Buffer): MarshalValue[] {
+    this.chunks.push(chunk);
+    this.buffered += chunk.length;
+    return this.buffered < this.retryAt ? [] : this.decode();
+  }
+
+  /**
+   * Signals the end of the stream.
+   * @returns Values completed but not yet returned by push.
+   * @throws Error if a partial value is left over.
+   */
+  public end(): MarshalValue[] {
+    const values = this.buffered > 0 ? this.decode() : [];
+    if (this.buffered > 0) {
+      const length = this.buffered;
+      this.chunks = [];
+      this.buffered = 0;
+      throw new Error(`Truncated marshal data (${length} trailing bytes)`);
+    }
+    return values;
+  }
+
+  private decode(): MarshalValue[] {
+    const buffer =
+      this.chunks.length === 1
+        ? this.chunks[0]
+        : Buffer.concat(this.chunks, this.buffered);
+    const values: MarshalValue[] = [];
+    let offset = 0;
+    let needed = 0;
+
+    while (offset < buffer.length) {
+      // Interned strings are scoped to a single top-level value, so use a fresh reader each time
+      const reader = new MarshalReader(buffer, offset, this.charset);
+      try {
+        values.push(reader.readValue());
+      } catch (error) {
+        if (error instanceof IncompleteInputError) {
+          needed = error.needed - offset;
+          break; // Retry this value once more bytes arrive
+        }
+        throw error;
+      }
+      offset = reader.offset;
+    }
+
+    // Copy the remainder so the (possibly large) consumed chunks can be released
+    const remainder =
+      offset > 0 ? Buffer.from(buffer.subarray(offset)) : buffer;
+    this.chunks = remainder.length > 0 ? [remainder] : [];
+    this.buffered = remainder.length;
+    this.retryAt =
+      remainder.length > 0 ? Math.max(needed, remainder.length * 2) : 0;
+    return values;
+  }
+}
+
+/**
+ * Decodes a complete buffer of marshal data into its sequence of values.
+ * @param data The full output of a `p4 -G` command.
+ * @throws Error if the data is invalid or truncated.
+ */
+export function decodeMarshal(data: Buffer, charset?: string): MarshalValue[] {
+  const decoder = new MarshalDecoder(charset);
+  return [...decoder.push(data), ...decoder.end()];
+}
+
+/**
+ * Encodes a value in the marshal format read by `p4 -G ... -i`.
+ * Strings are written as UTF-8 bytes; p4 expects every spec field value to be a string.
+ * @param value The value to encode, typically a flat record of spec fields.
+ */
+export function encodeMarshal(value: MarshalValue): Buffer {
+  const parts: Buffer[] = [];
+  const int32 = (n: number) => {
+    const buf = Buffer.alloc(4);
+    buf.writeInt32LE(n);
+    return buf;
+  };
+  const write = (v: MarshalValue): void => {
+    if (v === null) {
+      parts.push(Buffer.from("N"));
+    } else if (typeof v === "boolean") {
+      parts.push(Buffer.from(v ? "T" : "F"));
+    } else if (typeof v === "string") {
+      const bytes = Buffer.from(v, "utf8");
+      parts.push(Buffer.from("s"), int32(bytes.length), bytes);
+    } else if (typeof v === "number") {
+      if (Number.isInteger(v) && v >= -0x80000000 && v <= 0x7fffffff) {
+        parts.push(Buffer.from("i"), int32(v));
+      } else {
+        const buf = Buffer.alloc(8);
+        buf.writeDoubleLE(v);
+        parts.push(Buffer.from("g"), buf);
+      }
+    } else if (Array.isArray(v)) {
+      parts.push(Buffer.from("["), int32(v.length));
+      v.forEach(write);
+    } else {
+      parts.push(Buffer.from("{"));
+      for (const [key, item] of Object.entries(v)) {
+        write(key);
+        write(item);
+      }
+      parts.push(Buffer.from("0"));
+    }
+  };
+  write(value);
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,87 @@
+// What was done to a file while the server was unreachable
+export type P4OfflineAction = "edit" | "add" | "delete";
+
+export interface P4OfflineChange {
+  path: string; // Local filesystem path
+  action: P4OfflineAction;
+  time: Date; // Last time the file was touched offline
+}
+
+// A P4OfflineChange as plain JSON, for workspace storage
+export interface P4SavedOfflineChange {
+  path: string;
+  action: P4OfflineAction;
+  time: string; // ISO date
+}
+
+/** Workspace storage key for a client's offline work. */
+export function offlineWorkKey(snapshotKey: string): string {
+  return `${snapshotKey}:offlineWork`;
+}
+
+/**
+ * Files edited, added or deleted while the server was unreachable, so they can
+ * be opened with `p4 reconcile` once it is back. Later actions on the same file
+ * combine with earlier ones the way p4 would see the end result.
+ */
+export class OfflineWorkLog {
+  private readonly changes = new Map<string, P4OfflineChange>();
+
+  /** @param saved Work saved by a previous session, see serialize. */
+  constructor(saved: P4SavedOfflineChange[] = []) {
+    for (const change of saved) {
+      this.changes.set(change.path, { ...change, time: new Date(change.time) });
+    }
+  }
+
+  public get size(): number {
+    return this.changes.size;
+  }
+
+  public get entries(): P4OfflineChange[] {
+    return Array.from(this.changes.values());
+  }
+
+  /** Turns the log into plain JSON for workspace storage. */
+  public serialize(): P4SavedOfflineChange[] {
+    return this.entries.map((change) => ({
+      ...change,
+      time: change.time.toISOString(),
+    }));
+  }
+
+  /**
+   * Records an action on a file.
+   * @param path Local path of the file.
+   * @param action What was done to it.
+   */
+  public record(path: string, action: P4OfflineAction): void {
+    const previous = this.changes.get(path)?.action;
+    let combined: P4OfflineAction | undefined = action;
+    if (previous === "add" && action === "delete") {
+      combined = undefined; // Never existed as far as the depot is concerned
+    } else if (previous === "add") {
+      combined = "add"; // Still new, however often it is edited
+    } else if (previous === "delete" && action !== "delete") {
+      combined = "edit"; // Recreated over a depot file
+    }
+
+    if (combined) {
+      this.changes.set(path, { path, action: combined, time: new Date() });
+    } else {
+      this.changes.delete(path);
+    }
+  }
+
+  /**
+   * Forgets recorded files, e.g. once they have been opened in a changelist.
+   * @param paths Files to forget; all files if omitted.
+   */
+  public clear(paths?: string[]): void {
+    if (!paths) {
+      this.changes.clear();
+      return;
+    }
+    paths.forEach((path) => this.changes.delete(path));
+  }
+}
@@ -0,0 +1,194 @@
+import * as fs from "fs";
+import * as path from "path";
+import { P4Options } from "./p4Types";
+
+// Connection settings resolved per directory; the rest of a P4CONFIG file is passed through as-is
+const RESOLVED_KEYS = [
+  "P4PORT",
+  "P4USER",
+  "P4CLIENT",
+  "P4PASSWD",
+  "P4CHARSET",
+] as const;
+
+type ResolvedKey = (typeof RESOLVED_KEYS)[number];
+
+// Where a resolved value came from, highest precedence first
+export type P4ConfigSource = "settings" | "p4config" | "environment" | "p4set";
+
+// Options for a directory, with the origin of each connection setting (for logging and diagnostics)
+export interface ResolvedP4Options {
+  options: P4Options;
+  configFile?: string; // Nearest P4CONFIG file at or above the directory
+  sources: Partial<Record<ResolvedKey, P4ConfigSource>>;
+}
+
+/**
+ * Parses the contents of a P4CONFIG (or P4ENVIRO) file: one `NAME=value` per line,
+ * `#` starts a comment line. Values are taken verbatim after the first `=`.
+ * @param text File contents.
+ */
+export function parseP4ConfigText(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const separator = line.indexOf("=");
+    if (separator <= 0) {
+      continue;
+    }
+    const name = line.substring(0, separator).trim();
+    const value = line.substring(separator + 1).trim();
+    if (/^P4\w+$/.test(name) && value) {
+      values[name] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses `p4 set -q` output, which lists the values p4 would use from P4ENVIRO,
+ * the Windows registry and the environment, one `NAME=value` per line.
+ * @param text Output of `p4 set -q`.
+ */
+export function parseP4SetOutput(text: string): Record<string, string> {
+  // Same line format as a P4CONFIG file
+  return parseP4ConfigText(text);
+}
+
+/**
+ * Resolves P4 connection settings for a directory the way p4 itself would,
+ * with VS Code settings taking precedence:
+ *
+ *   VS Code settings > nearest P4CONFIG file > environment > P4ENVIRO / registry (`p4 set`)
+ *
+ * Lookups are synchronous and cached per directory; call clearCache() when
+ * P4CONFIG files change.
+ */
+export class P4ConfigResolver {
+  private p4SetValues: Record<string, string> = {};
+  private readonly configFileCache = new Map<string, string | undefined>();
+  private readonly parsedCache = new Map<string, Record<string, string>>();
+
+  /**
+   * @param readFile Reads a file, or returns undefined if it does not exist.
+   * @param env Environment of the extension host.
+   */
+  constructor(
+    private readonly readFile: (
+      filePath: string,
+    ) => string | undefined = readFileIfExists,
+    private readonly env: NodeJS.ProcessEnv = process.env,
+  ) {}
+
+  /** Stores the values reported by `p4 set`, used below the environment in precedence. */
+  public setP4SetValues(values: Record<string, string>): void {
+    this.p4SetValues = values;
+    this.clearCache(); // P4CONFIG itself may come from p4 set
+  }
+
+  /** The P4CONFIG file name in effect, or undefined if P4CONFIG is not set anywhere. */
+  public get configFileName(): string | undefined {
+    const name = this.env.P4CONFIG || this.p4SetValues.P4CONFIG;
+    // P4CONFIG may be given as a path; p4 only uses its base name when searching
+    return name && name !== "noconfig" ? path.basename(name) : undefined;
+  }
+
+  public clearCache(): void {
+    this.configFileCache.clear();
+    this.parsedCache.clear();
+  }
+
+  /**
+   * Finds the nearest P4CONFIG file at or above a path, as p4 does from its working directory.
+   * @param startPath A directory, or a file (its own name is never a match).
+   * @returns The absolute path of the config file, or undefined.
+   */
+  public findConfigFile(startPath: string): string | undefined {
+    const name = this.configFileName;
+    if (!name) {
+      return undefined;
+    }
+    const visited: string[] = [];
+    let found: string | undefined;
+    let dir = path.resolve(startPath);
+    for (;;) {
+      if (this.configFileCache.has(dir)) {
+        found = this.configFileCache.get(dir);
+        break;
+      }
+      visited.push(dir);
+      const candidate = path.join(dir, name);
+      const text = this.readFile(candidate);
+      if (text !== undefined) {
+        this.parsedCache.set(candidate, parseP4ConfigText(text));
+        found = candidate;
+        break;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+    visited.forEach((visitedDir) =>
+      this.configFileCache.set(visitedDir, found),
+    );
+    return found;
+  }
+
+  /**
+   * Resolves options for a directory.
+   * @param dir Directory p4 will run in (or a file within it).
+   * @param settings Values from VS Code settings; these win over everything else.
+   */
+  public resolve(dir: string, settings: P4Options = {}): ResolvedP4Options {
+    const configFile = this.findConfigFile(dir);
+    const configValues = configFile
+      ? (this.parsedCache.get(configFile) ?? {})
+      : {};
+    const layers: [P4ConfigSource, Record<string, string | undefined>][] = [
+      ["settings", settings as Record<string, string | undefined>],
+      ["p4config", configValues],
+      ["environment", this.env],
+      ["p4set", this.p4SetValues],
+    ];
+
+    const options: P4Options = { ...settings };
+    const sources: ResolvedP4Options["sources"] = {};
+    for (const key of RESOLVED_KEYS) {
+      for (const [source, values] of layers) {
+        if (values[key]) {
+          options[key] = values[key];
+          sources[key] = source;
+          break;
+        }
+      }
+    }
+    if (configFile) {
+      // Other variables in the file (P4TICKETS, P4TRUST, P4IGNORE, ...) still apply
+      const extra = Object.fromEntries(
+        Object.entries(configValues).filter(
+          ([key]) => !(RESOLVED_KEYS as readonly string[]).includes(key),
+        ),
+      );
+      options.env = { ...extra, ...options.env };
+      // Values are already resolved; p4 would otherwise let the file override the settings
+      options.P4CONFIG = "noconfig";
+    }
+    return { options, configFile, sources };
+  }
+}
+
+function readFileIfExists(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, "utf8");
+  } catch {
+    return undefined; // Missing or unreadable; either way not a config file
+  }
+}
+
+// Shared by every provider, so each directory is read once
+export const p4ConfigResolver = new P4ConfigResolver();
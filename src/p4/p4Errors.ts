@@ -0,0 +1,151 @@
+import { P4Message } from "./p4Types";
+
+// What went wrong, independent of the exact server wording
+export type P4ErrorCategory =
+  | "authExpired" // Not logged in, ticket expired or password rejected
+  | "connectionRefused" // Server unreachable (P4PORT wrong, network down)
+  | "sslUntrusted" // ssl: server whose fingerprint has not been trusted yet (see `p4 trust`)
+  | "sslFingerprintChanged" // ssl: server whose fingerprint differs from the trusted one
+  | "unknownClient" // P4CLIENT does not name an existing workspace
+  | "notInClientView" // Path is outside the workspace mapping
+  | "fileLocked" // Exclusively opened or locked by someone else
+  | "needsResolve" // Files must be resolved before the operation can complete
+  | "triggerFailure" // A server trigger rejected the operation
+  | "noSuchFile" // File, revision or shelf does not exist
+  | "cancelled" // The caller cancelled the command and the p4 process was killed
+  | "unknown";
+
+// Generic codes from -G error records that identify a category on their own
+const GENERIC_COMMUNICATIONS = 38; // EV_COMM
+
+// Categories where the connection or session failed, rather than the files a command was given;
+// every other command on the same connection fails the same way
+export const SESSION_ERROR_CATEGORIES: readonly P4ErrorCategory[] = [
+  "authExpired",
+  "connectionRefused",
+  "unknownClient",
+  "sslUntrusted",
+  "sslFingerprintChanged",
+];
+
+// Trust failures are reported as communication errors, so they are checked before the generic code
+const TRUST_PATTERNS: [P4ErrorCategory, RegExp][] = [
+  [
+    "sslFingerprintChanged",
+    /IDENTIFICATION HAS CHANGED|fingerprint for the mismatched key/i,
+  ],
+  [
+    "sslUntrusted",
+    /authenticity of '.*' can't be established|To allow connection use the 'p4 trust' command/i,
+  ],
+];
+
+// First match wins; patterns are checked against the full error text
+const CATEGORY_PATTERNS: [P4ErrorCategory, RegExp][] = [
+  [
+    "connectionRefused",
+    /connect to server failed|TCP connect to .* failed|connection refused|check \$P4PORT/i,
+  ],
+  [
+    "authExpired",
+    /session has expired|P4PASSWD\) invalid or unset|not logged in|please login again|password invalid/i,
+  ],
+  [
+    "unknownClient",
+    /client '.*' unknown|client unknown|client specification unknown/i,
+  ],
+  ["notInClientView", /not in client view|not under client's root/i],
+  [
+    "triggerFailure",
+    /validation failed|trigger .*(failed|rejected)|rejected by trigger/i,
+  ],
+  ["needsResolve", /must resolve|merges still pending/i],
+  [
+    "fileLocked",
+    /exclusive file already opened|locked by|already locked|can't edit exclusive file/i,
+  ],
+  [
+    "noSuchFile",
+    /no such file|no such shelved change|file\(s\) not on client/i,
+  ],
+];
+
+/**
+ * Determines the category of a p4 failure.
+ * @param text Error text (stderr, or the data of -G error records).
+ * @param messages Error records from -G output, if any; their generic codes are checked
+ *   before the text, except for SSL trust failures.
+ */
+export function classifyP4Error(
+  text: string,
+  messages: P4Message[] = [],
+): P4ErrorCategory {
+  const fullText = [text, ...messages.map((message) => message.data)].join(
+    "\n",
+  );
+  for (const [category, pattern] of TRUST_PATTERNS) {
+    if (pattern.test(fullText)) {
+      return category;
+    }
+  }
+  if (messages.some((message) => message.generic === GENERIC_COMMUNICATIONS)) {
+    return "connectionRefused";
+  }
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(fullText)) {
+      return category;
+    }
+  }
+  return "unknown";
+}
+
+/**
+ * Error thrown for failed p4 commands, carrying a category callers can branch on.
+ */
+export class P4Error extends Error {
+  public readonly category: P4ErrorCategory;
+  public readonly command: string;
+  public readonly exitCode: number | undefined;
+  public readonly messages: P4Message[];
+
+  constructor(
+    message: string,
+    details: {
+      command: string;
+      category?: P4ErrorCategory;
+      exitCode?: number;
+      messages?: P4Message[];
+    },
+  ) {
+    super(message);
+    this.name = "P4Error";
+    this.command = details.command;
+    this.exitCode = details.exitCode;
+    this.messages = details.messages ?? [];
+    this.category = details.category ?? classifyP4Error(message, this.messages);
+  }
+}
+
+/**
+ * Checks whether an error is a P4Error, optionally of one of the given categories.
+ * @param error Any caught value.
+ * @param categories If given, the error must be in one of these categories.
+ */
+export function isP4Error(
+  error: unknown,
+  ...categories: P4ErrorCategory[]
+): error is P4Error {
+  return (
+    error instanceof P4Error &&
+    (categories.length === 0 || categories.includes(error.category))
+  );
+}
+
+/**
+ * Extracts the server fingerprint from a p4 trust error, e.g.
+ * "The fingerprint for the key sent to your client is\n AB:CD:...".
+ * @param text Error text of an sslUntrusted or sslFingerprintChanged failure.
+ */
+export function parseSslFingerprint(text: string): string | undefined {
+  return text.match(/\b([0-9A-F]{2}(?::[0-9A-F]{2}){15,})\b/i)?.[1];
+}
@@ -0,0 +1,176 @@
+import { ChildProcess, spawn } from "child_process";
+import * as vscode from "vscode";
+import { P4Options } from "./p4Types";
+import { P4Error } from "./p4Errors";
+
+// P4 settings that are passed to the child process through its environment
+const P4_ENV_KEYS = [
+  "P4CLIENT",
+  "P4USER",
+  "P4PORT",
+  "P4PASSWD",
+  "P4CHARSET",
+  "P4CONFIG",
+] as const;
+
+// p4 processes that have been started and not yet exited, so they can be killed on shutdown
+const activeProcesses = new Set<ChildProcess>();
+
+// Result of a single p4 process run, before any parsing
+export interface P4ProcessResult {
+  stdout: Buffer;
+  stderr: Buffer;
+  exitCode: number;
+  durationMs: number;
+}
+
+/**
+ * Builds the environment for a p4 child process: the extension host's
+ * environment, overridden by any P4 settings present in options.
+ * @param options P4 options (P4CLIENT, P4USER etc.).
+ */
+export function buildP4Environment(options: P4Options): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { ...process.env, ...options.env };
+  for (const key of P4_ENV_KEYS) {
+    const value = options[key];
+    if (value !== undefined && value !== "") {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Kills a p4 process and anything it started (e.g., a merge tool or ssh tunnel).
+ * On POSIX the process leads its own process group, so the whole group is signalled.
+ * @param child The process to kill.
+ */
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+  try {
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], {
+        windowsHide: true,
+      }).on("error", () => child.kill());
+    } else {
+      process.kill(-child.pid, "SIGTERM");
+    }
+  } catch {
+    child.kill(); // Group already gone or not ours; fall back to the process itself
+  }
+}
+
+/**
+ * Kills every p4 process still running. Called when the extension shuts down.
+ */
+export function killAllP4Processes(): void {
+  activeProcesses.forEach(killProcessTree);
+  activeProcesses.clear();
+}
+
+/**
+ * Spawns the p4 executable directly and collects its output as raw bytes.
+ * Resolves for any exit code; rejects only if the process cannot be started,
+ * its stdin cannot be written, or it is cancelled.
+ * @param p4Path Path to the p4 executable (defaults to `p4` on PATH).
+ * @param argv Full argument vector, global options first (e.g., ['-G', 'opened', '-c', '123']).
+ * @param options P4 options (cwd and environment).
+ * @param input Data written to the process's stdin (e.g., a spec for `p4 change -i`).
+ * @param onStdout If given, receives stdout chunks as they arrive instead of them being collected.
+ * @param token Kills the process tree when cancellation is requested; the promise rejects with a "cancelled" P4Error.
+ */
+export function runP4Process(
+  p4Path: string | undefined,
+  argv: string[],
+  options: P4Options = {},
+  input?: string | Buffer,
+  onStdout?: (chunk: Buffer) => void,
+  token?: vscode.CancellationToken,
+): Promise<P4ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const command = argv.find((arg) => !arg.startsWith("-")) ?? "p4";
+    if (token?.isCancellationRequested) {
+      reject(cancelledError(command));
+      return;
+    }
+    const start = Date.now();
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let settled = false;
+
+    const child = spawn(p4Path || "p4", argv, {
+      cwd: options.cwd,
+      env: buildP4Environment(options),
+      windowsHide: true,
+      // Own process group, so cancelling can take down anything p4 spawns
+      detached: process.platform !== "win32",
+    });
+    activeProcesses.add(child);
+    const cancellation = token?.onCancellationRequested(() => {
+      fail(cancelledError(command));
+      killProcessTree(child);
+    });
+
+    const fail = (error: Error) => {
+      activeProcesses.delete(child);
+      cancellation?.dispose();
+      if (!settled) {
+        settled = true;
+        reject(error);
+      }
+    };
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        fail(
+          new Error(
+            `Unable to run '${p4Path || "p4"}'. Check that p4 is installed or set perforce.command.`,
+          ),
+        );
+      } else {
+        fail(error);
+      }
+    });
+
+    child.stdout.on("data", (chunk: Buffer) =>
+      onStdout ? onStdout(chunk) : stdoutChunks.push(chunk),
+    );
+    child.stderr.on("data", (chunk: Buffer) => stderrChunks.push(chunk));
+
+    child.on("close", (code) => {
+      activeProcesses.delete(child);
+      cancellation?.dispose();
+      if (settled) {
+        return;
+      }
+      settled = true;
+      resolve({
+        stdout: Buffer.concat(stdoutChunks),
+        stderr: Buffer.concat(stderrChunks),
+        // A null code means the process was killed by a signal
+        exitCode: code ?? -1,
+        durationMs: Date.now() - start,
+      });
+    });
+
+    // p4 exits early on some errors without reading stdin; that is not our failure
+    child.stdin.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code !== "EPIPE") {
+        fail(error);
+      }
+    });
+    if (input !== undefined) {
+      child.stdin.write(input);
+    }
+    child.stdin.end();
+  });
+}
+
+function cancelledError(command: string): P4Error {
+  return new P4Error(`P4 command '${command}' was cancelled`, {
+    command,
+    category: "cancelled",
+  });
+}
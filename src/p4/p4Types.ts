@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
+import { ClientViewMapper } from "./clientView";
 
 // Interface for Perforce command options (environment, cwd)
-// Match options potentially used by reckless-node-perforce or needed for p4 commands
 export interface P4Options {
   cwd?: string;
   P4CLIENT?: string;
@@ -9,17 +9,62 @@ export interface P4Options {
   P4PORT?: string;
   P4PASSWD?: string;
   P4CHARSET?: string;
-  P4CONFIG?: string; // Path to P4CONFIG file
+  P4CONFIG?: string; // P4CONFIG file name, or "noconfig" once a config file has been resolved
   p4Path?: string; // Path to p4 executable
+  env?: Record<string, string>; // Other P4 variables from a P4CONFIG file (P4TICKETS, P4TRUST, ...)
   // Add other relevant P4 environment variables if needed
 }
 
 // Interface for the result of a p4 command
 export interface P4Result {
-  stdout: string;
+  stdout: string; // stdout decoded with the P4CHARSET in effect (UTF-8 if none); use raw or parsedOutput for -G commands
   stderr: string;
-  // Potentially add parsed data later (e.g., parsed JSON from -G)
-  parsedOutput?: any;
+  parsedOutput?: any; // Parsed marshal data for -G commands
+  raw: Buffer; // Unmodified stdout bytes; empty for -G commands, which are decoded as they stream
+  exitCode: number;
+  durationMs: number; // Wall-clock time of the p4 process
+  messages?: P4Message[]; // Error/info records from -G output (also appended to stderr)
+}
+
+// An error or info record from -G output, as opposed to a data ("stat") record
+export interface P4Message {
+  code: "error" | "info";
+  data: string; // Message text
+  severity: number; // 0 empty, 1 info, 2 warning, 3 failed, 4 fatal
+  generic: number; // Error class (e.g., 6 = protections, 17 = empty, 38 = communications)
+}
+
+// Queue a command waits in when the maximum number of p4 processes is running.
+// "user" is for commands the user is waiting on; "background" is for refreshes and polling.
+export type P4CommandPriority = "user" | "background";
+
+// Controls for a single execute call that are not p4 settings
+export interface P4ExecuteOptions {
+  priority?: P4CommandPriority; // Defaults to "user"
+  // Receives each -G data record as soon as it is decoded; such records are not collected in parsedOutput
+  onRecord?: (record: Record<string, any>) => void;
+  // Kills the p4 process (and its children) when cancellation is requested; the call then rejects
+  token?: vscode.CancellationToken;
+  // Defaults to true; false fails rather than running recovery handlers, which may prompt
+  interactive?: boolean;
+}
+
+// Per-file outcome of a command run over a list of files, possibly split across several p4 processes
+export interface P4BatchResult {
+  succeeded: string[]; // Files p4 reported as done, in the syntax p4 reported them (usually local paths)
+  failed: P4FileFailure[];
+}
+
+export interface P4FileFailure {
+  file: string; // As named in the p4 message, or the path that was passed if p4 did not name one
+  message: string;
+}
+
+// A file reported by p4 reconcile -G, opened (or with -n, to be opened) for action
+export interface P4ReconcileFile {
+  depotFile?: string;
+  clientFile: string; // Local path
+  action: string; // edit, add or delete
 }
 
 // Interface for files reported by p4 opened -G
@@ -90,6 +135,10 @@ export interface P4DescribeResult {
   // Add other fields as needed (e.g., jobStatus for pending changes)
 }
 
+// Fields of a spec form (change, job, client, ...) as read and written with `p4 -G <spec> -o/-i`.
+// List fields such as Files, Jobs or View are arrays; everything else is a single string.
+export type P4SpecFields = Record<string, string | string[]>;
+
 // Represents a single entry from `p4 changes -G`
 export interface P4ChangeSummary {
   change: string;
@@ -123,6 +172,8 @@ export interface P4Info {
   serverVersion?: string;
   serverLicense?: string;
   caseHandling?: string;
+  unicode?: boolean; // Server runs in unicode mode and requires a P4CHARSET
+  charset?: string; // Client charset reported by the server
   // Add other relevant fields from p4 info if needed
 }
 
@@ -137,11 +188,14 @@ export type ExecuteFunction = (
   args?: string[],
   options?: P4Options,
   useTaggedOutput?: boolean,
-  input?: string,
+  input?: string | Buffer,
+  executeOptions?: P4ExecuteOptions,
 ) => Promise<P4Result>;
 
 // Define the context required by command functions
 export interface P4CommandContext {
   execute: ExecuteFunction;
   outputChannel: vscode.OutputChannel;
+  token?: vscode.CancellationToken; // Forwarded to every execute call made by the command
+  clientView?: ClientViewMapper; // When known, paths are mapped with it instead of asking the server
 }
@@ -1,10 +1,23 @@
+import * as path from "path";
 import * as vscode from "vscode";
-import { P4Options } from "./p4Types";
+import { p4ConfigResolver } from "./p4Config";
+import { P4Options, P4Result, P4SpecFields } from "./p4Types";
+
+/**
+ * Reads `perforce.maxFilePerCommand`: how many file arguments go on one p4 command line.
+ * @param resourceUri Optional URI to determine workspace-specific settings.
+ */
+export function getMaxFilesPerCommand(resourceUri?: vscode.Uri): number {
+  const config = vscode.workspace.getConfiguration("perforce", resourceUri);
+  return Math.max(1, Math.floor(config.get<number>("maxFilePerCommand", 32)));
+}
 
 /**
  * Helper function to get P4 options from VS Code configuration for a specific resource.
- * Reads settings like p4.client, p4.user, p4.port, p4.password, p4.charset,
- * p4.dir (for cwd), and p4.command (for p4Path).
+ * Reads settings like p4.client, p4.user, p4.port, p4.charset,
+ * p4.dir (for cwd), and p4.command (for p4Path). Connection settings left unset
+ * are resolved from the nearest P4CONFIG file, then the environment, then `p4 set`.
+ * The deprecated p4.password setting is not included; it is only used for `p4 login`.
  *
  * @param resourceUri Optional URI to determine workspace-specific settings.
  * @returns P4Options object populated from configuration.
@@ -28,23 +41,14 @@ export function getP4OptionsFromConfig(resourceUri?: vscode.Uri): P4Options {
     options.P4PORT = port;
   }
 
-  const password = config.get<string>("password");
-  if (password && password !== "none") {
-    options.P4PASSWD = password;
-  }
-
   const charset = config.get<string>("charset");
   if (charset && charset !== "none") {
     options.P4CHARSET = charset;
   }
 
-  // P4CONFIG is often better left to the environment, but allow override if specified
-  // const p4configSetting = config.get<string>('p4config'); // If we add a specific setting
-  // if (p4configSetting) options.P4CONFIG = p4configSetting;
-
   const dir = config.get<string>("dir");
   if (dir && dir !== "none") {
-    options.cwd = dir; // reckless-node-perforce uses 'cwd'
+    options.cwd = dir; // p4 is spawned in this directory
   } else if (resourceUri && vscode.workspace.getWorkspaceFolder(resourceUri)) {
     // Default cwd to the workspace folder containing the resource, if 'perforce.dir' isn't set
     options.cwd = vscode.workspace.getWorkspaceFolder(resourceUri)?.uri.fsPath;
@@ -56,6 +60,18 @@ export function getP4OptionsFromConfig(resourceUri?: vscode.Uri): P4Options {
     options.cwd = vscode.workspace.workspaceFolders[0].uri.fsPath;
   }
 
+  // Fill in anything not set above from the nearest P4CONFIG file, the environment and `p4 set`
+  const lookupPath =
+    resourceUri?.scheme === "file" ? resourceUri.fsPath : options.cwd;
+  if (lookupPath) {
+    const resolved = p4ConfigResolver.resolve(lookupPath, options);
+    Object.assign(options, resolved.options);
+    if (resolved.configFile && !(dir && dir !== "none")) {
+      // Run where p4 would find the file itself, so each client in a monorepo gets its own cwd
+      options.cwd = path.dirname(resolved.configFile);
+    }
+  }
+
   // Check for the command path override
   const commandPath = config.get<string>("command");
   if (commandPath && commandPath !== "none") {
@@ -64,3 +80,77 @@ export function getP4OptionsFromConfig(resourceUri?: vscode.Uri): P4Options {
 
   return options;
 }
+
+/**
+ * Reads the deprecated plaintext `perforce.password` setting.
+ * @param resourceUri Optional URI to determine workspace-specific settings.
+ * @returns The password, or undefined if unset.
+ */
+export function getPlaintextPassword(
+  resourceUri?: vscode.Uri,
+): string | undefined {
+  const password = vscode.workspace
+    .getConfiguration("perforce", resourceUri)
+    .get<string>("password");
+  return password && password !== "none" ? password : undefined;
+}
+
+/**
+ * Flattens spec fields into the record form read by `p4 -G <spec> -i`.
+ * List fields become numbered keys (e.g., Files -> Files0, Files1, ...).
+ * @param fields Spec fields, with list fields as arrays.
+ * @returns A flat record of string values.
+ */
+export function flattenSpecFields(
+  fields: P4SpecFields,
+): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => (record[`${key}${index}`] = item));
+    } else if (value !== undefined) {
+      record[key] = value;
+    }
+  }
+  return record;
+}
+
+/**
+ * Converts a `p4 -G <spec> -o` record into spec fields, gathering numbered
+ * keys (Files0, Files1, ...) back into lists. The record's `code` key is dropped.
+ * @param record A single stat record from tagged spec output.
+ * @returns Spec fields, with list fields as arrays.
+ */
+export function specFieldsFromRecord(
+  record: Record<string, any>,
+): P4SpecFields {
+  const fields: P4SpecFields = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (key === "code") {
+      continue;
+    }
+    const match = key.match(/^(\D.*?)(\d+)$/);
+    // Only treat as a list item if the list starts at 0 (avoids splitting names like "Date2")
+    if (match && `${match[1]}0` in record) {
+      const list = fields[match[1]];
+      const items = Array.isArray(list) ? list : [];
+      items[Number(match[2])] = String(value);
+      fields[match[1]] = items;
+    } else {
+      fields[key] = String(value);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Returns the human-readable text of a command result: the -G info/error
+ * messages when present, otherwise stdout.
+ * @param result The result of an executed command.
+ */
+export function getResultText(result: P4Result): string {
+  if (result.messages && result.messages.length > 0) {
+    return result.messages.map((message) => message.data.trim()).join("\n");
+  }
+  return result.stdout;
+}
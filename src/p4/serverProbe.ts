@@ -0,0 +1,63 @@
+import { createHash } from "crypto";
+import { P4CommandContext, P4Options } from "./p4Types";
+
+/**
+ * Takes a cheap fingerprint of what a client has going on at the server: its
+ * latest change number, its pending changes (full descriptions and whether
+ * they have shelved files) and the changelists and actions of its opened files,
+ * which catch files reopened in another changelist without touching the disk.
+ * Two equal fingerprints mean a full update would find nothing new. Uses
+ * `p4 -G changes -m 1 -c`, `p4 -G changes -l -s pending -c` and `p4 -G opened -C`.
+ * @param context Object containing execute function and outputChannel.
+ * @param options P4 options.
+ * @param client Name of the client to probe.
+ * @returns An opaque fingerprint to compare with the previous one.
+ */
+export async function p4probe(
+  context: P4CommandContext,
+  options: P4Options,
+  client: string,
+): Promise<string> {
+  const run = async (command: string, args: string[]) => {
+    const result = await context.execute(
+      command,
+      args,
+      options,
+      true,
+      undefined,
+      // Polled, so it must neither hold up nor prompt the user
+      { priority: "background", interactive: false, token: context.token },
+    );
+    // "File(s) not opened" and the like come back as error records
+    return Array.isArray(result.parsedOutput)
+      ? result.parsedOutput.filter((record) => record.code !== "error")
+      : [];
+  };
+
+  let latest: any[], pending: any[], opened: any[];
+  try {
+    [latest, pending, opened] = await Promise.all([
+      run("changes", ["-m", "1", "-c", client]),
+      run("changes", ["-l", "-s", "pending", "-c", client]),
+      run("opened", ["-C", client]),
+    ]);
+  } catch (error: any) {
+    context.outputChannel.appendLine(
+      `Error probing client ${client} for changes: ${error.message}`,
+    );
+    throw error;
+  }
+
+  const hash = createHash("sha1");
+  hash.update(`latest ${latest[0]?.change ?? "none"}\n`);
+  for (const change of pending) {
+    hash.update(
+      `pending ${change.change} ${change.shelved !== undefined} ${change.desc}\n`,
+    );
+  }
+  hash.update(`opened ${opened.length}\n`);
+  for (const file of opened) {
+    hash.update(`${file.depotFile} ${file.change} ${file.action}\n`);
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,158 @@
+import * as vscode from "vscode";
+import { ExecuteFunction, P4Options } from "./p4Types";
+import { credentialTarget } from "./credentials";
+import { isP4Error } from "./p4Errors";
+
+// How often tickets are checked when none is close to expiring
+const MAX_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+// Never check more often than this, even right before expiry
+const MIN_CHECK_INTERVAL_MS = 60 * 1000;
+
+const UNIT_SECONDS: Record<string, number> = {
+  day: 24 * 60 * 60,
+  hour: 60 * 60,
+  minute: 60,
+  second: 1,
+};
+
+/**
+ * Reads the ticket expiry from `p4 login -s` output,
+ * e.g. "User bob ticket expires in 11 hours 59 minutes."
+ * @param text Output of `p4 login -s`.
+ * @param now Time the command ran.
+ * @returns When the ticket expires, or undefined if the output has no expiry
+ *   (e.g., the server does not use tickets).
+ */
+export function parseTicketExpiry(
+  text: string,
+  now: Date = new Date(),
+): Date | undefined {
+  const match = text.match(/expires in ([^.]*)/i);
+  if (!match) {
+    return undefined;
+  }
+  let seconds = 0;
+  let found = false;
+  for (const [, amount, unit] of match[1].matchAll(
+    /(\d+)\s+(day|hour|minute|second)s?/gi,
+  )) {
+    seconds += Number(amount) * UNIT_SECONDS[unit.toLowerCase()];
+    found = true;
+  }
+  return found ? new Date(now.getTime() + seconds * 1000) : undefined;
+}
+
+/**
+ * Watches ticket expiry for each server and user in use, and warns a while
+ * before a ticket runs out so the user can log in again without losing work.
+ */
+export class SessionMonitor implements vscode.Disposable {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  // Expiry each warning was shown for, by server and user, so each ticket is warned about once
+  private readonly warned = new Map<string, number>();
+  private disposed = false;
+
+  /**
+   * @param execute Runs p4 commands.
+   * @param getTargets Options for each workspace, checked on every run.
+   * @param onExpiring Called when a ticket is about to expire.
+   * @param warnAheadMs How long before expiry to warn.
+   */
+  constructor(
+    private readonly execute: ExecuteFunction,
+    private readonly getTargets: () => P4Options[],
+    private readonly onExpiring: (options: P4Options, expiry: Date) => void,
+    private readonly warnAheadMs = 15 * 60 * 1000,
+  ) {}
+
+  /** Checks now and then keeps checking until disposed. */
+  public start(): void {
+    void this.check();
+  }
+
+  /**
+   * Checks every ticket once and schedules the next check.
+   * @returns The earliest expiry found, if any.
+   */
+  public async check(): Promise<Date | undefined> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const byTarget = new Map<string, P4Options>();
+    for (const options of this.getTargets()) {
+      const { port, user } = credentialTarget(options);
+      byTarget.set(`${port}:${user}`, options);
+    }
+
+    let earliest: Date | undefined;
+    for (const [key, options] of byTarget) {
+      const expiry = await this.getExpiry(options);
+      if (!expiry) {
+        continue;
+      }
+      if (!earliest || expiry < earliest) {
+        earliest = expiry;
+      }
+      const remaining = expiry.getTime() - Date.now();
+      // Expiry is only known to the minute, so a later expiry within the window is the same ticket
+      const warnedExpiry = this.warned.get(key);
+      const isNewTicket =
+        warnedExpiry === undefined ||
+        expiry.getTime() - warnedExpiry > this.warnAheadMs;
+      if (remaining <= this.warnAheadMs && isNewTicket) {
+        this.warned.set(key, +expiry);
+        this.onExpiring(options, expiry);
+      }
+    }
+
+    this.schedule(earliest);
+    return earliest;
+  }
+
+  private async getExpiry(options: P4Options): Promise<Date | undefined> {
+    try {
+      const result = await this.execute(
+        "login",
+        ["-s"],
+        options,
+        false,
+        undefined,
+        {
+          priority: "background",
+        },
+      );
+      return parseTicketExpiry(result.stdout);
+    } catch (error) {
+      // Already expired or unreachable; the failing commands themselves trigger a login
+      if (!isP4Error(error, "authExpired", "connectionRefused")) {
+        console.error("Perforce: ticket check failed", error);
+      }
+      return undefined;
+    }
+  }
+
+  private schedule(earliest: Date | undefined): void {
+    if (this.disposed) {
+      return;
+    }
+    // Wake up when the earliest ticket enters the warning window, re-checking at least every MAX_CHECK_INTERVAL_MS
+    const untilWarning = earliest
+      ? earliest.getTime() - this.warnAheadMs - Date.now()
+      : MAX_CHECK_INTERVAL_MS;
+    const delay = Math.min(
+      MAX_CHECK_INTERVAL_MS,
+      Math.max(MIN_CHECK_INTERVAL_MS, untilWarning),
+    );
+    this.timer = setTimeout(() => void this.check(), delay);
+  }
+
+  dispose() {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
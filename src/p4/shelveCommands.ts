@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import { P4Options, P4Result } from "./p4Types";
 // TODO: Consider moving P4CommandContext to p4Types.ts or a shared utils file
 import { P4CommandContext } from "./fileCommands"; // Reuse context from fileCommands
+import { P4Error, classifyP4Error } from "./p4Errors";
 
 /* Shelves files from a pending changelist. Uses `p4 shelve -c <changelist>`.
  * (Formerly PerforceService.shelve)
@@ -34,6 +35,8 @@ export async function p4shelve(
       effectiveArgs,
       options,
       false,
+      undefined,
+      { token: context.token },
     );
 
     // Check stdout/stderr for success/failure indicators
@@ -118,6 +121,8 @@ export async function p4unshelve(
       effectiveArgs,
       options,
       false,
+      undefined,
+      { token: context.token },
     );
 
     // Check stdout/stderr for success/failure/conflict indicators
@@ -126,7 +131,8 @@ export async function p4unshelve(
         `\`${commandDesc}\` stderr:\n${result.stderr.trim()}`,
       );
       // Check for common issues: "must resolve", "no such shelved change", "file(s) not found in shelve"
-      if (result.stderr.includes("must resolve")) {
+      const category = classifyP4Error(result.stderr);
+      if (category === "needsResolve") {
         context.outputChannel.appendLine(
           "Unshelve requires resolve. Files likely opened for integrate.",
         );
@@ -135,8 +141,12 @@ export async function p4unshelve(
         // Return successfully but maybe indicate resolve needed? Or let caller infer from state?
         return;
       }
-      if (result.stderr.includes("no such shelved change")) {
-        throw new Error(`Shelved changelist '${shelvedChange}' not found.`);
+      if (category === "noSuchFile") {
+        throw new P4Error(`Shelved changelist '${shelvedChange}' not found.`, {
+          command: "unshelve",
+          category,
+          exitCode: result.exitCode,
+        });
       }
       // Other errors might be permissions, etc.
     }
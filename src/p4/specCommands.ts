@@ -0,0 +1,108 @@
+import { P4CommandContext, P4Options, P4Result, P4SpecFields } from "./p4Types";
+import { encodeMarshal } from "./marshal";
+import { P4Error } from "./p4Errors";
+import {
+  flattenSpecFields,
+  getResultText,
+  specFieldsFromRecord,
+} from "./p4Utils";
+
+// Spec errors arrive as -G error records, which do not always set the exit code
+function throwOnSpecError(command: string, result: P4Result): void {
+  const failure = result.messages?.find(
+    (message) => message.code === "error" && message.severity >= 3,
+  );
+  if (failure) {
+    throw new P4Error(failure.data.trim(), {
+      command,
+      exitCode: result.exitCode,
+      messages: [failure],
+    });
+  }
+}
+
+/**
+ * Reads a spec (change, job, client...) as fields. Uses `p4 -G <specType> -o [name]`.
+ * @param context Object containing execute function and outputChannel.
+ * @param specType The spec command, e.g. 'change'.
+ * @param name Optional: which spec to read; omitted for a new one.
+ * @param options P4 options (cwd, P4CLIENT, P4USER etc.).
+ * @returns The spec fields, with list fields (Files, View...) as arrays.
+ * @throws P4Error if the server reports an error, e.g. for an unknown spec.
+ */
+export async function p4specFields(
+  context: P4CommandContext,
+  specType: string,
+  name?: string,
+  options: P4Options = {},
+): Promise<P4SpecFields> {
+  const args = name ? ["-o", name] : ["-o"];
+  const commandDesc = `p4 -G ${specType} ${args.join(" ")}`;
+  context.outputChannel.appendLine(`Executing \`${commandDesc}\`...`);
+  try {
+    const result = await context.execute(
+      specType,
+      args,
+      options,
+      true,
+      undefined,
+      { token: context.token },
+    );
+    throwOnSpecError(specType, result);
+    const record = Array.isArray(result.parsedOutput)
+      ? result.parsedOutput[0]
+      : undefined;
+    if (!record) {
+      throw new Error(`${commandDesc} did not return a spec.`);
+    }
+    return specFieldsFromRecord(record);
+  } catch (error: any) {
+    context.outputChannel.appendLine(
+      `Error executing \`${commandDesc}\`: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Saves a spec from fields, creating or updating it. Uses `p4 -G <specType> -i`,
+ * so field values need no text formatting.
+ * @param context Object containing execute function and outputChannel.
+ * @param specType The spec command, e.g. 'change'.
+ * @param fields Spec fields, e.g. from p4specFields.
+ * @param options P4 options (cwd, P4CLIENT, P4USER etc.).
+ * @param args Extra arguments for the spec command (e.g., ['-f'] to force).
+ * @returns The server's confirmation, e.g. "Change 123 created."
+ * @throws P4Error if the server rejects the spec.
+ */
+export async function p4saveSpec(
+  context: P4CommandContext,
+  specType: string,
+  fields: P4SpecFields,
+  options: P4Options = {},
+  args: string[] = [],
+): Promise<string> {
+  const effectiveArgs = ["-i", ...args];
+  const commandDesc = `p4 -G ${specType} ${effectiveArgs.join(" ")}`;
+  context.outputChannel.appendLine(`Executing \`${commandDesc}\`...`);
+  try {
+    const result = await context.execute(
+      specType,
+      effectiveArgs,
+      options,
+      true,
+      encodeMarshal(flattenSpecFields(fields)),
+      { token: context.token },
+    );
+    // The confirmation arrives as an info record
+    const output = getResultText(result);
+    context.outputChannel.appendLine(`\`${commandDesc}\` output: ${output}`);
+    throwOnSpecError(specType, result);
+    return output;
+  } catch (error: any) {
+    context.outputChannel.appendLine(
+      `Error executing \`${commandDesc}\`: ${error.message}`,
+    );
+    throw error;
+  }
+}
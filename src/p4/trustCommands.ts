@@ -0,0 +1,39 @@
+import { P4CommandContext, P4Options } from "./p4Types";
+
+/**
+ * Trusts an ssl: server by a given fingerprint. Uses `p4 trust -i`, so the key
+ * stored is the one the user approved, not whatever the server presents by then.
+ * Only for servers not trusted yet: a changed fingerprint needs `p4 trust -r`,
+ * which is left to the user since it may mean the connection is being intercepted.
+ * @param context Object containing execute function and outputChannel.
+ * @param fingerprint The server's fingerprint, as shown to the user.
+ * @param options P4 options (P4PORT in particular).
+ * @returns A promise that resolves once the fingerprint is stored in the trust file.
+ */
+export async function p4trust(
+  context: P4CommandContext,
+  fingerprint: string,
+  options: P4Options = {},
+): Promise<void> {
+  const commandDesc = `p4 trust -i ${fingerprint}`;
+  context.outputChannel.appendLine(`Executing \`${commandDesc}\`...`);
+
+  try {
+    const result = await context.execute(
+      "trust",
+      ["-i", fingerprint],
+      options,
+      false,
+      undefined,
+      { token: context.token },
+    );
+    context.outputChannel.appendLine(
+      `\`${commandDesc}\` completed: ${result.stdout.trim()}`,
+    );
+  } catch (error: any) {
+    context.outputChannel.appendLine(
+      `Error executing \`${commandDesc}\`: ${error.message}`,
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,81 @@
+import * as vscode from "vscode";
+
+/**
+ * A single change as reported by the editor's dirty diff (QuickDiff) decorator.
+ * Line numbers are 1-based; an end line of 0 means the range is empty
+ * (pure insertion on the original side or pure deletion on the modified side).
+ */
+export interface LineChange {
+  readonly originalStartLineNumber: number;
+  readonly originalEndLineNumber: number;
+  readonly modifiedStartLineNumber: number;
+  readonly modifiedEndLineNumber: number;
+}
+
+/**
+ * Rebuilds a document's text from its original revision plus the given changes.
+ * Passing every change except one yields the modified text with that one change reverted.
+ * @param original The original (depot) document.
+ * @param modified The modified (workspace) document.
+ * @param diffs The changes to keep, in document order.
+ */
+export function applyLineChanges(
+  original: vscode.TextDocument,
+  modified: vscode.TextDocument,
+  diffs: LineChange[],
+): string {
+  const result: string[] = [];
+  let currentLine = 0;
+
+  for (const diff of diffs) {
+    const isInsertion = diff.originalEndLineNumber === 0;
+    const isDeletion = diff.modifiedEndLineNumber === 0;
+
+    let endLine = isInsertion
+      ? diff.originalStartLineNumber
+      : diff.originalStartLineNumber - 1;
+    let endCharacter = 0;
+
+    // A deletion at the very end of the document also removed the newline of the last kept line
+    if (isDeletion && diff.originalEndLineNumber === original.lineCount) {
+      endLine -= 1;
+      endCharacter = original.lineAt(endLine).range.end.character;
+    }
+
+    result.push(
+      original.getText(new vscode.Range(currentLine, 0, endLine, endCharacter)),
+    );
+
+    if (!isDeletion) {
+      let fromLine = diff.modifiedStartLineNumber - 1;
+      let fromCharacter = 0;
+
+      // An insertion at the very end of the document needs the newline preceding it
+      if (isInsertion && diff.originalStartLineNumber === original.lineCount) {
+        fromLine -= 1;
+        fromCharacter = modified.lineAt(fromLine).range.end.character;
+      }
+
+      result.push(
+        modified.getText(
+          new vscode.Range(
+            fromLine,
+            fromCharacter,
+            diff.modifiedEndLineNumber,
+            0,
+          ),
+        ),
+      );
+    }
+
+    currentLine = isInsertion
+      ? diff.originalStartLineNumber
+      : diff.originalEndLineNumber;
+  }
+
+  result.push(
+    original.getText(new vscode.Range(currentLine, 0, original.lineCount, 0)),
+  );
+
+  return result.join("");
+}
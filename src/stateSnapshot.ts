@@ -0,0 +1,94 @@
+import * as vscode from "vscode";
+import { P4Options } from "./p4/p4Types";
+import { credentialTarget } from "./p4/credentials";
+import { P4Changelist, P4File } from "./RepositoryStateManager";
+
+// Bump when P4File or P4Changelist change shape; older snapshots are then ignored
+export const STATE_SNAPSHOT_VERSION = 1;
+
+// What a snapshot was taken of; a snapshot is only used for the same server, client and root
+export interface P4SnapshotIdentity {
+  serverAddress: string;
+  clientName: string;
+  clientRoot: string;
+}
+
+type SerializedFile = Omit<P4File, "uri"> & { uri: string };
+type SerializedChangelist = Omit<P4Changelist, "files" | "date"> & {
+  files: string[]; // uri strings of the changelist's files
+  date?: number;
+};
+
+// The repository state as kept in workspace storage between sessions
+export interface P4StateSnapshot extends P4SnapshotIdentity {
+  version: number;
+  savedAt: number;
+  files: SerializedFile[];
+  changelists: SerializedChangelist[];
+}
+
+/** Workspace storage key for a client's snapshot. */
+export function snapshotKey(options: P4Options): string {
+  return `perforce.stateSnapshot:${credentialTarget(options).port}:${options.P4CLIENT ?? ""}`;
+}
+
+/** Turns the state into plain JSON for workspace storage. */
+export function serializeState(
+  files: P4File[],
+  changelists: P4Changelist[],
+  identity: P4SnapshotIdentity,
+): P4StateSnapshot {
+  return {
+    version: STATE_SNAPSHOT_VERSION,
+    savedAt: Date.now(),
+    ...identity,
+    files: files.map((file) => ({ ...file, uri: file.uri.toString() })),
+    changelists: changelists.map((change) => ({
+      ...change,
+      files: change.files.map((file) => file.uri.toString()),
+      date: change.date?.getTime(),
+    })),
+  };
+}
+
+/**
+ * Rebuilds the state maps RepositoryStateManager holds from a snapshot.
+ * @returns The maps, or undefined for a snapshot from another version.
+ */
+export function deserializeState(snapshot: P4StateSnapshot | undefined):
+  | {
+      files: Map<string, P4File>;
+      changelists: Map<string, P4Changelist>;
+    }
+  | undefined {
+  if (snapshot?.version !== STATE_SNAPSHOT_VERSION) {
+    return undefined;
+  }
+  const files = new Map<string, P4File>();
+  for (const file of snapshot.files) {
+    files.set(file.uri, { ...file, uri: vscode.Uri.parse(file.uri) });
+  }
+  const changelists = new Map<string, P4Changelist>();
+  for (const change of snapshot.changelists) {
+    changelists.set(change.id, {
+      ...change,
+      files: change.files
+        .map((key) => files.get(key))
+        .filter((file): file is P4File => !!file),
+      date: change.date !== undefined ? new Date(change.date) : undefined,
+    });
+  }
+  return { files, changelists };
+}
+
+/** True if the snapshot was taken of the given server, client and root. */
+export function isSameIdentity(
+  snapshot: P4SnapshotIdentity,
+  identity: P4SnapshotIdentity,
+): boolean {
+  return (
+    snapshot.serverAddress === identity.serverAddress &&
+    snapshot.clientName === identity.clientName &&
+    snapshot.clientRoot === identity.clientRoot
+  );
+}
@@ -0,0 +1,173 @@
+import * as vscode from "vscode";
+import { chunk, executeBatched } from "../p4/batching";
+import { P4Error } from "../p4/p4Errors";
+import { ExecuteFunction, P4CommandContext, P4Result } from "../p4/p4Types";
+
+const outputChannel = {
+  appendLine: jest.fn(),
+} as unknown as vscode.OutputChannel;
+
+function result(messages: P4Result["messages"] = []): P4Result {
+  return {
+    stdout: "",
+    stderr: "",
+    raw: Buffer.alloc(0),
+    exitCode: 0,
+    durationMs: 0,
+    messages,
+  };
+}
+
+describe("chunk", () => {
+  it("should split into chunks of at most the given size", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 3)).toEqual([]);
+  });
+});
+
+describe("executeBatched", () => {
+  it("should run one command per batch and merge per-file results", async () => {
+    const calls: string[][] = [];
+    const execute: ExecuteFunction = async (_command, args = [], ...rest) => {
+      calls.push(args);
+      const onRecord = rest[3]?.onRecord;
+      // Every file but /ws/c succeeds; /ws/d is already open
+      args
+        .filter((arg) => arg.startsWith("/ws/"))
+        .filter((file) => !["/ws/c", "/ws/d"].includes(file))
+        .forEach((file) => onRecord?.({ clientFile: file, action: "edit" }));
+      return result(
+        args.flatMap((file) => {
+          if (file === "/ws/c") {
+            return [
+              {
+                code: "error" as const,
+                data: "/ws/c - file(s) not on client.",
+                severity: 2,
+                generic: 17,
+              },
+            ];
+          }
+          if (file === "/ws/d") {
+            return [
+              {
+                code: "error" as const,
+                data: "/ws/d - currently opened for edit",
+                severity: 2,
+                generic: 17,
+              },
+            ];
+          }
+          return [];
+        }),
+      );
+    };
+    const context: P4CommandContext = { execute, outputChannel };
+
+    const merged = await executeBatched(
+      context,
+      "edit",
+      ["-c", "12"],
+      ["/ws/a", "/ws/b", "/ws/c", "/ws/d", "/ws/e"],
+      {},
+      2,
+      /currently opened for edit/,
+    );
+
+    expect(calls).toEqual([
+      ["-c", "12", "/ws/a", "/ws/b"],
+      ["-c", "12", "/ws/c", "/ws/d"],
+      ["-c", "12", "/ws/e"],
+    ]);
+    expect(merged.succeeded.sort()).toEqual([
+      "/ws/a",
+      "/ws/b",
+      "/ws/d",
+      "/ws/e",
+    ]);
+    expect(merged.failed).toEqual([
+      { file: "/ws/c", message: "/ws/c - file(s) not on client." },
+    ]);
+  });
+
+  it("should fail a batch as a whole but keep going", async () => {
+    let call = 0;
+    const execute: ExecuteFunction = async (_command, args = [], ...rest) => {
+      if (call++ === 0) {
+        throw new P4Error("P4 command 'revert' failed: exit code 1", {
+          command: "revert",
+        });
+      }
+      args.forEach((file) => rest[3]?.onRecord?.({ clientFile: file }));
+      return result();
+    };
+
+    const merged = await executeBatched(
+      { execute, outputChannel },
+      "revert",
+      [],
+      ["/ws/a", "/ws/b", "/ws/c"],
+      {},
+      2,
+    );
+
+    expect(merged.succeeded).toEqual(["/ws/c"]);
+    expect(merged.failed.map((failure) => failure.file)).toEqual([
+      "/ws/a",
+      "/ws/b",
+    ]);
+  });
+
+  it("should keep files that succeeded when p4 exits with an error", async () => {
+    const execute: ExecuteFunction = async (_command, _args, ...rest) => {
+      rest[3]?.onRecord?.({ clientFile: "/ws/a", action: "edit" });
+      throw new P4Error("P4 command 'edit' failed: exit code 1", {
+        command: "edit",
+        exitCode: 1,
+        messages: [
+          {
+            code: "error",
+            data: "/ws/b - file(s) not on client.",
+            severity: 2,
+            generic: 17,
+          },
+        ],
+      });
+    };
+
+    const merged = await executeBatched(
+      { execute, outputChannel },
+      "edit",
+      [],
+      ["/ws/a", "/ws/b", "/ws/c"],
+      {},
+      3,
+    );
+
+    expect(merged.succeeded).toEqual(["/ws/a"]);
+    expect(merged.failed).toEqual([
+      { file: "/ws/b", message: "/ws/b - file(s) not on client." },
+      { file: "/ws/c", message: "P4 command 'edit' failed: exit code 1" },
+    ]);
+  });
+
+  it("should stop on session failures", async () => {
+    const execute = jest.fn(async () => {
+      throw new P4Error("Your session has expired, please login again.", {
+        command: "edit",
+      });
+    });
+
+    await expect(
+      executeBatched(
+        { execute, outputChannel },
+        "edit",
+        [],
+        ["/ws/a", "/ws/b", "/ws/c"],
+        {},
+        1,
+      ),
+    ).rejects.toMatchObject({ category: "authExpired" });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
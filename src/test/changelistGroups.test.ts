@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import { ChangelistViewSettings, shapeChangelists } from "../changelistGroups";
+import { P4Changelist, P4File } from "../RepositoryStateManager";
+
+function file(path: string, changelist: string, isShelved = false): P4File {
+  return {
+    uri: vscode.Uri.file(path),
+    depotPath: `//depot${path}`,
+    clientPath: path,
+    localPath: path,
+    status: "edit",
+    action: "edit",
+    changelist,
+    isShelved,
+  };
+}
+
+function change(id: string, description = `Change ${id}`): P4Changelist {
+  return {
+    id,
+    description,
+    user: "testuser",
+    client: "testclient_ws",
+    status: "pending",
+    files: [],
+  };
+}
+
+const showAll: ChangelistViewSettings = {
+  hideShelvedFiles: false,
+  hideEmptyChangelists: false,
+  changelistOrder: "descending",
+  ignoredChangelistPrefix: "",
+  hideNonWorkspaceFiles: "show all files",
+};
+
+// Files under /ws are in the workspace
+const isInWorkspace = (f: P4File) => f.localPath?.startsWith("/ws/") ?? false;
+
+describe("shapeChangelists", () => {
+  const changes = [
+    change("3", "[wip] scratch"),
+    change("2"),
+    change("1"),
+    change("default"),
+  ];
+  const files = [
+    file("/ws/a.ts", "3"),
+    file("/other/b.ts", "2"),
+    file("/ws/c.ts", "1"),
+    file("/other/d.ts", "1"),
+    file("/ws/e.ts", "1", true),
+    file("/other/f.ts", "default"),
+  ];
+  const shape = (settings: Partial<ChangelistViewSettings>) =>
+    shapeChangelists(changes, files, { ...showAll, ...settings }, isInWorkspace)
+      .map(
+        ({ change, files }) =>
+          `${change.id}: ${files.map((f) => f.localPath).join(" ")}`,
+      )
+      .join("\n");
+
+  it("should show everything in the given order by default", () => {
+    expect(shape({})).toBe(
+      [
+        "3: /ws/a.ts",
+        "2: /other/b.ts",
+        "1: /ws/c.ts /other/d.ts /ws/e.ts",
+        "default: /other/f.ts",
+      ].join("\n"),
+    );
+  });
+
+  it("should hide shelved files, ignored and empty changelists", () => {
+    expect(
+      shape({
+        hideShelvedFiles: true,
+        ignoredChangelistPrefix: "[wip]",
+        hideEmptyChangelists: true,
+        hideNonWorkspaceFiles: "hide non workspace files",
+      }),
+    ).toBe(["1: /ws/c.ts", "default: "].join("\n"));
+  });
+
+  it("should hide changelists with only files outside the workspace", () => {
+    expect(shape({ hideNonWorkspaceFiles: "hide changelists" })).toBe(
+      [
+        "3: /ws/a.ts",
+        "1: /ws/c.ts /other/d.ts /ws/e.ts",
+        "default: /other/f.ts",
+      ].join("\n"),
+    );
+    expect(
+      shape({
+        hideNonWorkspaceFiles:
+          "hide changelists, hide files in default changelist",
+      }),
+    ).toBe(
+      ["3: /ws/a.ts", "1: /ws/c.ts /other/d.ts /ws/e.ts", "default: "].join(
+        "\n",
+      ),
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  chooseCharset,
+  decodeP4Output,
+  outputCharset,
+  parseUnicodeInfo,
+  requiresCommandCharset,
+} from "../p4/charset";
+
+describe("parseUnicodeInfo", () => {
+  it("should detect unicode servers in text and tagged output", () => {
+    expect(
+      parseUnicodeInfo(
+        "Server version: P4D/LINUX26X86_64/2023.1\nUnicode enabled\nCase Handling: sensitive\n",
+      ),
+    ).toEqual({ unicode: true, charset: undefined });
+    expect(
+      parseUnicodeInfo("... unicode enabled\n... clientCharset utf16\n"),
+    ).toEqual({ unicode: true, charset: "utf16" });
+    expect(
+      parseUnicodeInfo("Server unicode: enabled\ncharset: utf8\n"),
+    ).toEqual({
+      unicode: true,
+      charset: "utf8",
+    });
+  });
+
+  it("should report non-unicode servers", () => {
+    expect(parseUnicodeInfo("Case Handling: insensitive\n").unicode).toBe(
+      false,
+    );
+  });
+});
+
+describe("charset selection", () => {
+  it("should follow files.encoding, defaulting to utf8", () => {
+    expect(chooseCharset(undefined)).toBe("utf8");
+    expect(chooseCharset("utf8bom")).toBe("utf8-bom");
+    expect(chooseCharset("utf16le")).toBe("utf16le");
+    expect(chooseCharset("windows1252")).toBe("utf8");
+  });
+
+  it("should require a command charset for utf16 and utf32", () => {
+    expect(requiresCommandCharset("utf16le-nobom")).toBe(true);
+    expect(requiresCommandCharset("utf32")).toBe(true);
+    expect(requiresCommandCharset("utf8-bom")).toBe(false);
+  });
+
+  it("should decode file content with P4CHARSET and messages with the command charset", () => {
+    expect(outputCharset("print", "utf16", "utf8")).toBe("utf16");
+    expect(outputCharset("opened", "utf16", "utf8")).toBe("utf8");
+    expect(outputCharset("opened", "shiftjis")).toBe("shiftjis");
+  });
+});
+
+describe("decodeP4Output", () => {
+  const text = "naïve ☃";
+
+  it("should decode utf8 and drop its BOM", () => {
+    expect(decodeP4Output(Buffer.from(text, "utf8"))).toBe(text);
+    expect(
+      decodeP4Output(
+        Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text)]),
+        "utf8-bom",
+      ),
+    ).toBe(text);
+  });
+
+  it("should let a utf16 BOM win over the charset", () => {
+    const utf16 = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from(text, "utf16le"),
+    ]);
+    expect(decodeP4Output(utf16, "utf8")).toBe(text);
+  });
+
+  it("should decode legacy and utf32 charsets", () => {
+    expect(
+      decodeP4Output(Buffer.from([0x63, 0x61, 0x66, 0xe9]), "winansi"),
+    ).toBe("café");
+    expect(decodeP4Output(Buffer.from([0x82, 0xa0]), "shiftjis")).toBe("あ");
+    const utf32be = Buffer.alloc(8);
+    utf32be.writeUInt32BE(0x1f600, 0);
+    utf32be.writeUInt32BE(0x41, 4);
+    expect(decodeP4Output(utf32be, "utf32be-nobom")).toBe("😀A");
+  });
+});
@@ -0,0 +1,129 @@
+import * as path from "path";
+import { ClientViewMapper, parseViewLine } from "../p4/clientView";
+
+describe("parseViewLine", () => {
+  it("should read prefixes and quoted paths", () => {
+    expect(parseViewLine("//depot/main/... //ws/main/...")).toEqual({
+      type: "map",
+      depot: "//depot/main/...",
+      client: "//ws/main/...",
+    });
+    expect(parseViewLine('"-//depot/my dir/..." "//ws/my dir/..."')).toEqual({
+      type: "exclude",
+      depot: "//depot/my dir/...",
+      client: "//ws/my dir/...",
+    });
+    expect(parseViewLine('+"//depot/b/..." //ws/...')).toMatchObject({
+      type: "overlay",
+      depot: "//depot/b/...",
+    });
+    expect(parseViewLine("//depot/only-one-path")).toBeUndefined();
+  });
+});
+
+describe("ClientViewMapper", () => {
+  const root = path.join(path.sep, "home", "me", "ws");
+
+  it("should map wildcards in both directions", () => {
+    const mapper = new ClientViewMapper(
+      "ws",
+      [root],
+      [
+        "//depot/main/... //ws/main/...",
+        "//depot/docs/*.md //ws/docs/*.txt",
+        "//depot/lib/%%1/%%2.c //ws/src/%%2/%%1.c",
+      ],
+    );
+
+    expect(mapper.depotToClient("//depot/main/a/b.ts")).toBe(
+      "//ws/main/a/b.ts",
+    );
+    expect(mapper.depotToClient("//depot/docs/readme.md")).toBe(
+      "//ws/docs/readme.txt",
+    );
+    expect(mapper.depotToClient("//depot/docs/sub/readme.md")).toBeUndefined();
+    expect(mapper.depotToClient("//depot/lib/net/socket.c")).toBe(
+      "//ws/src/socket/net.c",
+    );
+    expect(mapper.clientToDepot("//ws/src/socket/net.c")).toBe(
+      "//depot/lib/net/socket.c",
+    );
+    expect(mapper.depotToLocal("//depot/main/a/b.ts")).toBe(
+      path.join(root, "main", "a", "b.ts"),
+    );
+    expect(mapper.localToDepot(path.join(root, "main", "c.ts"))).toBe(
+      "//depot/main/c.ts",
+    );
+    expect(mapper.localToDepot(path.join(path.sep, "elsewhere"))).toBe(
+      undefined,
+    );
+  });
+
+  it("should let later lines exclude and remap earlier ones", () => {
+    const mapper = new ClientViewMapper(
+      "ws",
+      [root],
+      [
+        "//depot/... //ws/...",
+        "-//depot/.../*.log //ws/.../*.log",
+        "//depot/other/x.ts //ws/x.ts",
+      ],
+    );
+
+    expect(mapper.depotToClient("//depot/a/debug.log")).toBeUndefined();
+    expect(mapper.clientToDepot("//ws/a/debug.log")).toBeUndefined();
+    // //ws/x.ts now comes from //depot/other, hiding //depot/x.ts
+    expect(mapper.depotToClient("//depot/x.ts")).toBeUndefined();
+    expect(mapper.clientToDepot("//ws/x.ts")).toBe("//depot/other/x.ts");
+    // ...and //depot/other/x.ts is no longer at //ws/other/x.ts
+    expect(mapper.clientToDepot("//ws/other/x.ts")).toBeUndefined();
+  });
+
+  it("should keep earlier mappings under an overlay", () => {
+    const mapper = new ClientViewMapper(
+      "ws",
+      [root],
+      ["//depot/base/... //ws/...", "+//depot/patch/... //ws/..."],
+    );
+
+    expect(mapper.depotToClient("//depot/base/a.ts")).toBe("//ws/a.ts");
+    expect(mapper.depotToClient("//depot/patch/a.ts")).toBe("//ws/a.ts");
+    expect(mapper.clientToDepot("//ws/a.ts")).toBe("//depot/patch/a.ts");
+  });
+
+  it("should accept any path syntax and honour case handling", () => {
+    const mapper = new ClientViewMapper(
+      "WS",
+      [root],
+      ["//Depot/Main/... //WS/Main/..."],
+      true,
+    );
+    const local = path.join(root, "Main", "a.ts");
+
+    // The client side of the View decides the case of the local path
+    expect(mapper.toLocal("//depot/main/a.ts")).toBe(local);
+    expect(mapper.toLocal("//WS/Main/a.ts")).toBe(local);
+    expect(mapper.toLocal(local)).toBe(local);
+    expect(mapper.toLocal("//depot/other/a.ts")).toBeUndefined();
+  });
+
+  it("should make local paths under the root that holds the current directory", () => {
+    const altRoot = path.join(path.sep, "mnt", "ws");
+    const mapper = new ClientViewMapper(
+      "ws",
+      [root, altRoot],
+      ["//depot/main/... //ws/..."],
+    );
+
+    expect(mapper.toLocal("//depot/main/a.ts")).toBe(path.join(root, "a.ts"));
+    expect(mapper.toLocal("//depot/main/a.ts", path.join(altRoot, "src"))).toBe(
+      path.join(altRoot, "a.ts"),
+    );
+    expect(mapper.toLocal("//ws/a.ts", path.join(path.sep, "tmp"))).toBe(
+      path.join(root, "a.ts"),
+    );
+    expect(mapper.toLocal(path.join(altRoot, "a.ts"))).toBe(
+      path.join(altRoot, "a.ts"),
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { CommandLog, redactArgs, redactOptions } from "../p4/commandLog";
+
+function run(overrides: Partial<Parameters<CommandLog["add"]>[0]> = {}) {
+  return {
+    command: "opened",
+    args: [],
+    options: {},
+    useTaggedOutput: true,
+    startTime: new Date(0),
+    durationMs: 12,
+    exitCode: 0,
+    stdoutBytes: 0,
+    stderrBytes: 0,
+    stdout: "",
+    stderr: "",
+    hadInput: false,
+    ...overrides,
+  };
+}
+
+describe("redaction", () => {
+  it("should hide passwords given with -P", () => {
+    expect(redactArgs(["-P", "secret", "-u", "bob", "opened"])).toEqual([
+      "-P",
+      "********",
+      "-u",
+      "bob",
+      "opened",
+    ]);
+    expect(redactArgs(["-Psecret"])).toEqual(["-P********"]);
+  });
+
+  it("should hide P4PASSWD in options", () => {
+    expect(redactOptions({ P4USER: "bob", P4PASSWD: "secret" })).toEqual({
+      P4USER: "bob",
+      P4PASSWD: "********",
+    });
+  });
+});
+
+describe("CommandLog", () => {
+  it("should keep the newest entries first, up to the limit", () => {
+    const log = new CommandLog(2);
+    log.add(run({ command: "info" }));
+    log.add(run({ command: "opened" }));
+    log.add(run({ command: "changes" }));
+
+    expect(log.entries.map((entry) => entry.command)).toEqual([
+      "changes",
+      "opened",
+    ]);
+  });
+
+  it("should redact what it shows but keep the original for re-runs", () => {
+    const log = new CommandLog();
+    const entry = log.add(
+      run({ command: "login", args: ["-s", "-P", "secret"] }),
+    );
+
+    expect(entry.args).toEqual(["-s", "-P", "********"]);
+    expect(entry.rerun?.args).toEqual(["-s", "-P", "secret"]);
+  });
+
+  it("should not offer re-runs of commands that read input", () => {
+    const log = new CommandLog();
+    const entry = log.add(run({ command: "login", hadInput: true }));
+
+    expect(entry.rerun).toBeUndefined();
+  });
+
+  it("should truncate large output", () => {
+    const log = new CommandLog();
+    const entry = log.add(run({ stdout: "x".repeat(100_000) }));
+
+    expect(entry.stdout.length).toBeLessThan(20_000);
+    expect(entry.stdout).toMatch(/more characters\)$/);
+  });
+});
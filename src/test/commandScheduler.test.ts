@@ -0,0 +1,85 @@
+import { CommandScheduler } from "../p4/commandScheduler";
+
+// A task whose completion is controlled by the test
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+describe("CommandScheduler", () => {
+  it("should not run more than maxConcurrent tasks at once", async () => {
+    const scheduler = new CommandScheduler(2);
+    const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+    const started: number[] = [];
+
+    const results = gates.map((gate, i) =>
+      scheduler.schedule(async () => {
+        started.push(i);
+        await gate.promise;
+        return i;
+      }, "user"),
+    );
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    gates[0].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+  });
+
+  it("should start waiting user tasks before waiting background tasks", async () => {
+    const scheduler = new CommandScheduler(1);
+    const blocker = deferred<void>();
+    const order: string[] = [];
+
+    const first = scheduler.schedule(() => blocker.promise, "background");
+    const background = scheduler.schedule(async () => {
+      order.push("background");
+    }, "background");
+    const user = scheduler.schedule(async () => {
+      order.push("user");
+    }, "user");
+
+    blocker.resolve();
+    await Promise.all([first, background, user]);
+    expect(order).toEqual(["user", "background"]);
+  });
+
+  it("should coalesce tasks with the same key while one is pending", async () => {
+    const scheduler = new CommandScheduler(1);
+    const task = jest.fn(async () => "result");
+
+    const [a, b] = await Promise.all([
+      scheduler.schedule(task, "background", "same"),
+      scheduler.schedule(task, "user", "same"),
+    ]);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(a).toBe("result");
+    expect(b).toBe("result");
+
+    // Once settled, the key runs again
+    await scheduler.schedule(task, "user", "same");
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("should propagate task failures and keep draining", async () => {
+    const scheduler = new CommandScheduler(1);
+
+    const failing = scheduler.schedule(async () => {
+      throw new Error("boom");
+    }, "user");
+    const next = scheduler.schedule(async () => "ok", "user");
+
+    await expect(failing).rejects.toThrow("boom");
+    await expect(next).resolves.toBe("ok");
+  });
+});
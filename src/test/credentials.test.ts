@@ -0,0 +1,43 @@
+import * as os from "os";
+import * as vscode from "vscode";
+import { credentialTarget, P4CredentialStore } from "../p4/credentials";
+
+function fakeSecretStorage() {
+  const values = new Map<string, string>();
+  const secrets = {
+    get: jest.fn(async (key: string) => values.get(key)),
+    store: jest.fn(async (key: string, value: string) => {
+      values.set(key, value);
+    }),
+    delete: jest.fn(async (key: string) => {
+      values.delete(key);
+    }),
+  };
+  return { values, secrets: secrets as unknown as vscode.SecretStorage };
+}
+
+describe("P4CredentialStore", () => {
+  it("should keep passwords per server and user", async () => {
+    const { values, secrets } = fakeSecretStorage();
+    const store = new P4CredentialStore(secrets);
+    const alice = { P4PORT: "ssl:perforce:1666", P4USER: "alice" };
+    const bob = { P4PORT: "ssl:perforce:1666", P4USER: "bob" };
+
+    await store.storePassword(alice, "alice-secret");
+    expect(await store.getPassword(alice)).toBe("alice-secret");
+    expect(await store.getPassword(bob)).toBeUndefined();
+    expect(Array.from(values.keys())).toEqual([
+      "perforce.password:ssl:perforce:1666:alice",
+    ]);
+
+    await store.deletePassword(alice);
+    expect(await store.getPassword(alice)).toBeUndefined();
+  });
+
+  it("should fall back to p4's defaults for the server and user", () => {
+    expect(credentialTarget({})).toEqual({
+      port: "perforce:1666",
+      user: os.userInfo().username,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import { PerforceDecorationProvider } from "../PerforceDecorationProvider";
+import {
+  P4File,
+  P4OtherOpen,
+  RepositoryStateManager,
+} from "../RepositoryStateManager";
+
+function decorate(
+  file: Partial<P4File> | undefined,
+  otherOpens: P4OtherOpen[] = [],
+): vscode.FileDecoration | undefined {
+  const uri = vscode.Uri.file("/ws/a.ts");
+  const stateManager = {
+    onDidChange: jest.fn(),
+    onDidChangeOtherOpens: jest.fn(),
+    getFileState: () =>
+      file && {
+        uri,
+        depotPath: "//depot/ws/a.ts",
+        clientPath: "/ws/a.ts",
+        status: "edit",
+        changelist: "default",
+        ...file,
+      },
+    getOtherOpens: () => otherOpens,
+  } as unknown as RepositoryStateManager;
+  return new PerforceDecorationProvider(stateManager).provideFileDecoration(
+    uri,
+  );
+}
+
+const color = (decoration: vscode.FileDecoration | undefined) =>
+  (decoration?.color as unknown as { id: string } | undefined)?.id;
+
+describe("PerforceDecorationProvider", () => {
+  it("should badge and colour by open action", () => {
+    const decoration = decorate({ action: "edit", changelist: "12" });
+    expect(decoration?.badge).toBe("E");
+    expect(color(decoration)).toBe("perforceDecoration.editForeground");
+    expect(decoration?.tooltip).toBe(
+      "Perforce: Opened for edit, in changelist 12",
+    );
+    expect(decoration?.propagate).toBe(true);
+  });
+
+  it("should show the first mark that applies", () => {
+    expect(
+      decorate({
+        action: "edit",
+        otherLock: "bob@bob-ws",
+        ourLock: true,
+        outOfDate: true,
+      })?.badge,
+    ).toBe("E!");
+    expect(
+      decorate({
+        action: "add",
+        outOfDate: true,
+        otherOpens: [{ who: "bob@bob-ws" }],
+      })?.badge,
+    ).toBe("A↓");
+  });
+
+  it("should colour unresolved files over locked ones", () => {
+    expect(
+      color(
+        decorate({ action: "edit", ourLock: true, diffStatus: "unresolved" }),
+      ),
+    ).toBe("perforceDecoration.unresolvedForeground");
+    expect(color(decorate({ action: "delete", ourLock: true }))).toBe(
+      "perforceDecoration.lockForeground",
+    );
+  });
+
+  it("should mark files only others have open", () => {
+    const decoration = decorate(undefined, [
+      { who: "bob@bob-ws", action: "edit", changelist: "12" },
+    ]);
+    expect(decoration?.badge).toBe("+");
+    expect(decoration?.tooltip).toBe(
+      "Perforce: opened by bob@bob-ws (edit) in CL 12",
+    );
+    expect(decorate(undefined)).toBeUndefined();
+    // `p4 status` entries have no open action
+    expect(decorate({ status: "add" })).toBeUndefined();
+  });
+});
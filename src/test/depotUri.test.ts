@@ -0,0 +1,50 @@
+import * as vscode from "vscode";
+import {
+  createDepotUri,
+  EMPTY_REVISION,
+  parseDepotUri,
+  PERFORCE_SCHEME,
+} from "../PerforceContentProvider";
+
+describe("depot URIs", () => {
+  it("should put the depot name in the authority and keep the extension", () => {
+    const uri = createDepotUri("//depot/main/src/file.c", "#3");
+    expect(uri.scheme).toBe(PERFORCE_SCHEME);
+    expect(uri.authority).toBe("depot");
+    expect(uri.path).toBe("/main/src/file.c");
+    expect(parseDepotUri(uri)).toEqual({
+      depotPath: "//depot/main/src/file.c",
+      revSpec: "#3",
+      rootUri: undefined,
+    });
+  });
+
+  it("should round-trip shelf, changelist and empty revisions", () => {
+    for (const revSpec of ["@=1234", "@1234", "#have", EMPTY_REVISION, ""]) {
+      expect(
+        parseDepotUri(createDepotUri("//depot/a b/c#d.txt", revSpec)),
+      ).toMatchObject({ depotPath: "//depot/a b/c#d.txt", revSpec });
+    }
+  });
+
+  it("should carry the workspace root", () => {
+    const root = vscode.Uri.file("/ws");
+    const parts = parseDepotUri(createDepotUri("//depot/a.ts", "#have", root));
+    expect(parts.rootUri?.toString()).toBe(root.toString());
+  });
+
+  it("should handle a path that is just a depot", () => {
+    const uri = createDepotUri("//stream", "#head");
+    expect(uri.authority).toBe("stream");
+    expect(parseDepotUri(uri).depotPath).toBe("//stream");
+  });
+
+  it("should reject what is not a depot path or perforce URI", () => {
+    expect(() => createDepotUri("/local/file.c", "#head")).toThrow(
+      "Not a depot path",
+    );
+    expect(() => parseDepotUri(vscode.Uri.file("/ws/a.ts"))).toThrow(
+      "Unexpected URI scheme",
+    );
+  });
+});
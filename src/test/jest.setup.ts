@@ -65,6 +65,53 @@ jest.mock(
           // console.log(`DEBUG: Uri.file mock received: '${path}'`); // Debug log
           return createMockUri("file", path);
         }),
+        // Keeps every component, for code that builds URIs with an authority or query
+        from: jest
+          .fn()
+          .mockImplementation(
+            ({
+              scheme,
+              authority = "",
+              path = "",
+              query = "",
+              fragment = "",
+            }: Partial<vscode.Uri>) => ({
+              scheme,
+              authority,
+              path,
+              query,
+              fragment,
+              fsPath: path,
+              toString: () =>
+                `${scheme}://${authority}${path}${query ? `?${query}` : ""}`,
+            }),
+          ),
+      },
+      Range: jest
+        .fn()
+        .mockImplementation(
+          (
+            startLine: number,
+            startCharacter: number,
+            endLine: number,
+            endCharacter: number,
+          ) => ({
+            start: { line: startLine, character: startCharacter },
+            end: { line: endLine, character: endCharacter },
+          }),
+        ),
+      ThemeColor: jest.fn().mockImplementation((id: string) => ({ id })),
+      FileDecoration: jest
+        .fn()
+        .mockImplementation(
+          (badge?: string, tooltip?: string, color?: unknown) => ({
+            badge,
+            tooltip,
+            color,
+          }),
+        ),
+      window: {
+        registerFileDecorationProvider: jest.fn(() => ({ dispose: jest.fn() })),
       },
       EventEmitter: jest.fn().mockImplementation(() => ({
         event: jest.fn(),
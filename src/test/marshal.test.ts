@@ -0,0 +1,161 @@
+import { MarshalDecoder, decodeMarshal, encodeMarshal } from "../p4/marshal";
+import { flattenSpecFields, specFieldsFromRecord } from "../p4/p4Utils";
+
+// --- Helpers to build marshal bytes as written by p4 -G ---
+const int32 = (n: number) => {
+  const buf = Buffer.alloc(4);
+  buf.writeInt32LE(n);
+  return buf;
+};
+const str = (s: string) => {
+  const bytes = Buffer.from(s, "utf8");
+  return Buffer.concat([Buffer.from("s"), int32(bytes.length), bytes]);
+};
+const int = (n: number) => Buffer.concat([Buffer.from("i"), int32(n)]);
+const dict = (entries: [string, Buffer][]) =>
+  Buffer.concat([
+    Buffer.from("{"),
+    ...entries.flatMap(([key, value]) => [str(key), value]),
+    Buffer.from("0"),
+  ]);
+
+describe("marshal decoder", () => {
+  it("should decode every concatenated record", () => {
+    const data = Buffer.concat([
+      dict([
+        ["code", str("stat")],
+        ["depotFile", str("//depot/a.txt")],
+      ]),
+      dict([
+        ["code", str("error")],
+        ["data", str("b.txt - file(s) not opened on this client.\n")],
+        ["severity", int(2)],
+        ["generic", int(17)],
+      ]),
+    ]);
+
+    expect(decodeMarshal(data)).toEqual([
+      { code: "stat", depotFile: "//depot/a.txt" },
+      {
+        code: "error",
+        data: "b.txt - file(s) not opened on this client.\n",
+        severity: 2,
+        generic: 17,
+      },
+    ]);
+  });
+
+  it("should decode UTF-8 strings byte-for-byte", () => {
+    const data = dict([["depotFile", str("//depot/日本語/ü.txt")]]);
+    expect(decodeMarshal(data)).toEqual([
+      { depotFile: "//depot/日本語/ü.txt" },
+    ]);
+  });
+
+  it("should decode strings in the command charset", () => {
+    const bytes = Buffer.from("//depot/ü.txt", "latin1");
+    const data = Buffer.concat([
+      Buffer.from("{"),
+      str("depotFile"),
+      Buffer.from("s"),
+      int32(bytes.length),
+      bytes,
+      Buffer.from("0"),
+    ]);
+    expect(decodeMarshal(data, "iso8859-1")).toEqual([
+      { depotFile: "//depot/ü.txt" },
+    ]);
+  });
+
+  it("should decode lists, null and booleans", () => {
+    const data = Buffer.concat([
+      Buffer.from("["),
+      int32(3),
+      Buffer.from("N"),
+      Buffer.from("T"),
+      int(-5),
+    ]);
+    expect(decodeMarshal(data)).toEqual([[null, true, -5]]);
+  });
+
+  it("should yield records across arbitrary chunk boundaries", () => {
+    const data = Buffer.concat([
+      dict([["depotFile", str("//depot/one")]]),
+      dict([["depotFile", str("//depot/two")]]),
+    ]);
+    const decoder = new MarshalDecoder();
+    const values = [];
+    for (let i = 0; i < data.length; i += 3) {
+      values.push(...decoder.push(data.subarray(i, i + 3)));
+    }
+    values.push(...decoder.end());
+
+    expect(values).toEqual([
+      { depotFile: "//depot/one" },
+      { depotFile: "//depot/two" },
+    ]);
+  });
+
+  it("should not re-read a large value on every chunk", () => {
+    const description = "x".repeat(1 << 20);
+    const data = dict([["desc", str(description)]]);
+    const decoder = new MarshalDecoder();
+    const values = [];
+    // Count decoding attempts; the value needs all 1024 chunks
+    let attempts = 0;
+    const decode = (decoder as any).decode.bind(decoder);
+    (decoder as any).decode = () => {
+      attempts++;
+      return decode();
+    };
+    for (let i = 0; i < data.length; i += 1024) {
+      values.push(...decoder.push(data.subarray(i, i + 1024)));
+    }
+    values.push(...decoder.end());
+
+    expect(values).toEqual([{ desc: description }]);
+    expect(attempts).toBeLessThan(5);
+  });
+
+  it("should throw on truncated input", () => {
+    const data = dict([["depotFile", str("//depot/one")]]);
+    expect(() => decodeMarshal(data.subarray(0, data.length - 1))).toThrow(
+      /Truncated/,
+    );
+  });
+
+  it("should throw on unknown type codes", () => {
+    expect(() => decodeMarshal(Buffer.from("?"))).toThrow(/Unsupported/);
+  });
+});
+
+describe("marshal encoder", () => {
+  it("should encode records that p4 -G can read back", () => {
+    const record = {
+      Change: "new",
+      Description: "Fix build\n\twith tabs and ünïcode\n",
+      Files0: "//depot/a.txt",
+    };
+    const encoded = encodeMarshal(record);
+
+    expect(encoded.subarray(0, 1).toString()).toBe("{");
+    expect(decodeMarshal(encoded)).toEqual([record]);
+  });
+
+  it("should round-trip spec fields with list fields", () => {
+    const fields = {
+      Change: "123",
+      Description: "Multi\nline",
+      Files: ["//depot/a.txt", "//depot/b.txt"],
+    };
+    const flat = flattenSpecFields(fields);
+
+    expect(flat).toEqual({
+      Change: "123",
+      Description: "Multi\nline",
+      Files0: "//depot/a.txt",
+      Files1: "//depot/b.txt",
+    });
+    expect(specFieldsFromRecord({ code: "stat", ...flat })).toEqual(fields);
+  });
+});
@@ -0,0 +1,50 @@
+import { OfflineWorkLog } from "../p4/offlineWork";
+
+describe("OfflineWorkLog", () => {
+  it("should combine actions on the same file", () => {
+    const log = new OfflineWorkLog();
+    log.record("/ws/edited.ts", "edit");
+    log.record("/ws/edited.ts", "edit");
+    log.record("/ws/new.ts", "add");
+    log.record("/ws/new.ts", "edit");
+    log.record("/ws/recreated.ts", "delete");
+    log.record("/ws/recreated.ts", "add");
+
+    expect(log.entries.map((change) => [change.path, change.action])).toEqual([
+      ["/ws/edited.ts", "edit"],
+      ["/ws/new.ts", "add"],
+      ["/ws/recreated.ts", "edit"],
+    ]);
+  });
+
+  it("should forget files added and deleted again", () => {
+    const log = new OfflineWorkLog();
+    log.record("/ws/scratch.ts", "add");
+    log.record("/ws/scratch.ts", "delete");
+    expect(log.size).toBe(0);
+  });
+
+  it("should clear selected files or everything", () => {
+    const log = new OfflineWorkLog();
+    log.record("/ws/a.ts", "edit");
+    log.record("/ws/b.ts", "delete");
+
+    log.clear(["/ws/a.ts"]);
+    expect(log.entries.map((change) => change.path)).toEqual(["/ws/b.ts"]);
+    log.clear();
+    expect(log.size).toBe(0);
+  });
+
+  it("should restore what it serialized", () => {
+    const log = new OfflineWorkLog();
+    log.record("/ws/a.ts", "edit");
+    log.record("/ws/b.ts", "add");
+
+    const restored = new OfflineWorkLog(
+      JSON.parse(JSON.stringify(log.serialize())),
+    );
+    expect(restored.entries).toEqual(log.entries);
+    restored.record("/ws/b.ts", "delete");
+    expect(restored.size).toBe(1);
+  });
+});
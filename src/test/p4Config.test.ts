@@ -0,0 +1,127 @@
+import * as path from "path";
+import {
+  P4ConfigResolver,
+  parseP4ConfigText,
+  parseP4SetOutput,
+} from "../p4/p4Config";
+
+const root = path.resolve("/ws");
+
+function resolverWith(
+  files: Record<string, string>,
+  env: NodeJS.ProcessEnv = { P4CONFIG: ".p4config" },
+) {
+  const reads: string[] = [];
+  const resolver = new P4ConfigResolver((filePath) => {
+    reads.push(filePath);
+    return files[filePath];
+  }, env);
+  return { resolver, reads };
+}
+
+describe("parseP4ConfigText", () => {
+  it("should read NAME=value lines and skip comments and blanks", () => {
+    const text = [
+      "# team settings",
+      "P4PORT=ssl:perforce:1666",
+      "",
+      "P4CLIENT = alice-main ",
+      "P4IGNORE=.p4ignore",
+      "not a setting",
+      "P4USER=",
+    ].join("\r\n");
+    expect(parseP4ConfigText(text)).toEqual({
+      P4PORT: "ssl:perforce:1666",
+      P4CLIENT: "alice-main",
+      P4IGNORE: ".p4ignore",
+    });
+  });
+
+  it("should read p4 set -q output", () => {
+    expect(parseP4SetOutput("P4CONFIG=.p4config\nP4USER=alice\n")).toEqual({
+      P4CONFIG: ".p4config",
+      P4USER: "alice",
+    });
+  });
+});
+
+describe("P4ConfigResolver", () => {
+  it("should find the nearest config file and cache the lookup", () => {
+    const configFile = path.join(root, "proj", ".p4config");
+    const { resolver, reads } = resolverWith({
+      [configFile]: "P4CLIENT=proj",
+    });
+
+    const dir = path.join(root, "proj", "src", "lib");
+    expect(resolver.findConfigFile(dir)).toBe(configFile);
+    const readCount = reads.length;
+    expect(resolver.findConfigFile(path.join(root, "proj", "src"))).toBe(
+      configFile,
+    );
+    expect(reads.length).toBe(readCount);
+
+    resolver.clearCache();
+    resolver.findConfigFile(dir);
+    expect(reads.length).toBe(readCount * 2);
+  });
+
+  it("should not look for config files when P4CONFIG is unset", () => {
+    const { resolver, reads } = resolverWith({}, {});
+    expect(resolver.configFileName).toBeUndefined();
+    expect(resolver.findConfigFile(root)).toBeUndefined();
+    expect(reads).toEqual([]);
+  });
+
+  it("should take P4CONFIG from p4 set when the environment has none", () => {
+    const { resolver } = resolverWith({}, {});
+    resolver.setP4SetValues({ P4CONFIG: "/home/alice/.p4config" });
+    expect(resolver.configFileName).toBe(".p4config");
+  });
+
+  it("should apply settings, then the config file, then the environment, then p4 set", () => {
+    const { resolver } = resolverWith(
+      {
+        [path.join(root, ".p4config")]:
+          "P4CLIENT=from-file\nP4USER=file-user\nP4TICKETS=/tmp/tickets",
+      },
+      { P4CONFIG: ".p4config", P4USER: "env-user", P4PORT: "env:1666" },
+    );
+    resolver.setP4SetValues({ P4PORT: "set:1666", P4CHARSET: "utf8" });
+
+    const resolved = resolver.resolve(path.join(root, "src"), {
+      P4CLIENT: "from-settings",
+      cwd: root,
+    });
+
+    expect(resolved.configFile).toBe(path.join(root, ".p4config"));
+    expect(resolved.options).toMatchObject({
+      cwd: root,
+      P4CLIENT: "from-settings",
+      P4USER: "file-user",
+      P4PORT: "env:1666",
+      P4CHARSET: "utf8",
+      P4CONFIG: "noconfig",
+      env: { P4TICKETS: "/tmp/tickets" },
+    });
+    expect(resolved.sources).toEqual({
+      P4CLIENT: "settings",
+      P4USER: "p4config",
+      P4PORT: "environment",
+      P4CHARSET: "p4set",
+    });
+  });
+
+  it("should resolve a different client for each project of a monorepo", () => {
+    const { resolver } = resolverWith({
+      [path.join(root, "a", ".p4config")]: "P4CLIENT=client-a",
+      [path.join(root, "b", ".p4config")]: "P4CLIENT=client-b",
+    });
+    expect(resolver.resolve(path.join(root, "a")).options.P4CLIENT).toBe(
+      "client-a",
+    );
+    expect(
+      resolver.resolve(path.join(root, "b", "file.txt")).options.P4CLIENT,
+    ).toBe("client-b");
+    expect(resolver.resolve(root).configFile).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  P4Error,
+  P4ErrorCategory,
+  classifyP4Error,
+  isP4Error,
+  parseSslFingerprint,
+} from "../p4/p4Errors";
+
+const FINGERPRINT =
+  "5A:1B:2C:3D:4E:5F:60:71:82:93:A4:B5:C6:D7:E8:F9:0A:1B:2C:3D";
+const UNTRUSTED = `The authenticity of '10.0.0.5:1666' can't be established,\nthis may be your first attempt to connect to this P4PORT.\nThe fingerprint for the key sent to your client is\n${FINGERPRINT}\nTo allow connection use the 'p4 trust' command.`;
+const CHANGED = `******* WARNING P4PORT IDENTIFICATION HAS CHANGED! *******\nIt is possible that someone is intercepting your connection\nto the Perforce P4PORT '10.0.0.5:1666'\nIf this is not a scheduled key change, then you should contact\nyour Perforce administrator.\nThe fingerprint for the mismatched key sent to your client is\n${FINGERPRINT}\nTo allow connection use the 'p4 trust -r' command.`;
+
+describe("classifyP4Error", () => {
+  const cases: [string, P4ErrorCategory][] = [
+    ["Your session has expired, please login again.", "authExpired"],
+    ["Perforce password (P4PASSWD) invalid or unset.", "authExpired"],
+    [
+      "Perforce client error:\n\tConnect to server failed; check $P4PORT.\n\tTCP connect to perforce:1666 failed.",
+      "connectionRefused",
+    ],
+    [
+      "Client 'ws_missing' unknown - use 'client' command to create it.",
+      "unknownClient",
+    ],
+    ["/home/me/other/file.c - file(s) not in client view.", "notInClientView"],
+    ["//depot/a.bin - can't edit exclusive file already opened", "fileLocked"],
+    [
+      "Merges still pending -- use 'resolve' to merge files.\nSubmit failed -- fix problems above then use 'p4 submit -c 12'.",
+      "needsResolve",
+    ],
+    [
+      "Submit validation failed -- fix problems then use 'p4 submit -c 12'.\n'check-format' validation failed: bad tabs",
+      "triggerFailure",
+    ],
+    ["//depot/missing.txt - no such file(s).", "noSuchFile"],
+    [UNTRUSTED, "sslUntrusted"],
+    [CHANGED, "sslFingerprintChanged"],
+    ["Something unexpected happened.", "unknown"],
+  ];
+
+  for (const [text, category] of cases) {
+    it(`should classify ${JSON.stringify(text.split("\n")[0])} as ${category}`, () => {
+      expect(classifyP4Error(text)).toBe(category);
+    });
+  }
+
+  it("should treat communication errors in -G records as connection failures", () => {
+    expect(
+      classifyP4Error("", [
+        {
+          code: "error",
+          data: "Partner exited unexpectedly.",
+          severity: 3,
+          generic: 38,
+        },
+      ]),
+    ).toBe("connectionRefused");
+  });
+});
+
+describe("parseSslFingerprint", () => {
+  it("should read the fingerprint from trust errors", () => {
+    expect(parseSslFingerprint(UNTRUSTED)).toBe(FINGERPRINT);
+    expect(parseSslFingerprint(CHANGED)).toBe(FINGERPRINT);
+    expect(parseSslFingerprint("Connect to server failed.")).toBeUndefined();
+  });
+
+  it("should not mistake trust errors in -G records for plain connection failures", () => {
+    expect(
+      classifyP4Error("", [
+        { code: "error", data: UNTRUSTED, severity: 3, generic: 38 },
+      ]),
+    ).toBe("sslUntrusted");
+  });
+});
+
+describe("P4Error", () => {
+  it("should classify from its message unless a category is given", () => {
+    const classified = new P4Error("Your session has expired.", {
+      command: "opened",
+      exitCode: 1,
+    });
+    const explicit = new P4Error("Submit failed", {
+      command: "submit",
+      category: "needsResolve",
+    });
+
+    expect(classified.category).toBe("authExpired");
+    expect(classified.exitCode).toBe(1);
+    expect(explicit.category).toBe("needsResolve");
+    expect(isP4Error(classified)).toBe(true);
+    expect(isP4Error(classified, "authExpired", "unknownClient")).toBe(true);
+    expect(isP4Error(classified, "needsResolve")).toBe(false);
+    expect(isP4Error(new Error("Your session has expired."))).toBe(false);
+  });
+});
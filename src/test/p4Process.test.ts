@@ -0,0 +1,62 @@
+import * as vscode from "vscode";
+import { runP4Process } from "../p4/p4Process";
+import { isP4Error } from "../p4/p4Errors";
+
+// Minimal stand-in for vscode.CancellationTokenSource
+function cancellationSource() {
+  const listeners: (() => void)[] = [];
+  const token = {
+    isCancellationRequested: false,
+    onCancellationRequested: (listener: () => void) => {
+      listeners.push(listener);
+      return { dispose: () => undefined };
+    },
+  };
+  return {
+    token: token as unknown as vscode.CancellationToken,
+    cancel: () => {
+      token.isCancellationRequested = true;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+const posixOnly = process.platform === "win32" ? it.skip : it;
+
+describe("runP4Process", () => {
+  posixOnly("should kill the process and reject when cancelled", async () => {
+    const source = cancellationSource();
+    const start = Date.now();
+
+    // Any long-running executable stands in for p4
+    const run = runP4Process(
+      "sleep",
+      ["30"],
+      {},
+      undefined,
+      undefined,
+      source.token,
+    );
+    setTimeout(source.cancel, 50);
+
+    const error = await run.catch((e: unknown) => e);
+    expect(isP4Error(error, "cancelled")).toBe(true);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it("should not start a process for an already cancelled token", async () => {
+    const source = cancellationSource();
+    source.cancel();
+
+    await expect(
+      runP4Process(
+        "does-not-exist",
+        [],
+        {},
+        undefined,
+        undefined,
+        source.token,
+      ),
+    ).rejects.toMatchObject({ category: "cancelled" });
+  });
+});
@@ -0,0 +1,74 @@
+import * as vscode from "vscode";
+import { applyLineChanges, LineChange } from "../quickDiff";
+
+// Just enough of a TextDocument for applyLineChanges
+function document(text: string): vscode.TextDocument {
+  const lines = text.split("\n");
+  const offset = (line: number, character: number) =>
+    line >= lines.length
+      ? text.length
+      : lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) +
+        character;
+  return {
+    lineCount: lines.length,
+    lineAt: (line: number) => ({
+      range: { end: { character: lines[line].length } },
+    }),
+    getText: (range: vscode.Range) =>
+      text.slice(
+        offset(range.start.line, range.start.character),
+        offset(range.end.line, range.end.character),
+      ),
+  } as unknown as vscode.TextDocument;
+}
+
+function change(
+  originalStart: number,
+  originalEnd: number,
+  modifiedStart: number,
+  modifiedEnd: number,
+): LineChange {
+  return {
+    originalStartLineNumber: originalStart,
+    originalEndLineNumber: originalEnd,
+    modifiedStartLineNumber: modifiedStart,
+    modifiedEndLineNumber: modifiedEnd,
+  };
+}
+
+describe("applyLineChanges", () => {
+  const original = document("one\ntwo\nthree\nfour");
+
+  it("should rebuild the modified text from all changes", () => {
+    const modified = document("one\nTWO\nthree\nextra\nfour");
+    const changes = [change(2, 2, 2, 2), change(3, 0, 4, 4)];
+    expect(applyLineChanges(original, modified, changes)).toBe(
+      "one\nTWO\nthree\nextra\nfour",
+    );
+  });
+
+  it("should revert the change left out", () => {
+    const modified = document("one\nTWO\nthree\nextra\nfour");
+    // Keep the insertion, revert the edit of line 2
+    expect(applyLineChanges(original, modified, [change(3, 0, 4, 4)])).toBe(
+      "one\ntwo\nthree\nextra\nfour",
+    );
+    // Keep the edit, revert the insertion
+    expect(applyLineChanges(original, modified, [change(2, 2, 2, 2)])).toBe(
+      "one\nTWO\nthree\nfour",
+    );
+  });
+
+  it("should handle deletions and insertions at the end", () => {
+    expect(
+      applyLineChanges(original, document("one\ntwo\nthree"), [
+        change(4, 4, 3, 0),
+      ]),
+    ).toBe("one\ntwo\nthree");
+    expect(
+      applyLineChanges(original, document("one\ntwo\nthree\nfour\nfive"), [
+        change(4, 0, 5, 5),
+      ]),
+    ).toBe("one\ntwo\nthree\nfour\nfive");
+  });
+});
@@ -0,0 +1,230 @@
+import * as vscode from "vscode";
+import {
+  describeOtherOpen,
+  diffState,
+  isEmptyDelta,
+  P4Changelist,
+  P4File,
+  P4StateDelta,
+  parseFstatRecord,
+  RepositoryStateManager,
+} from "../RepositoryStateManager";
+import { PerforceService } from "../PerforceService";
+
+jest.mock("../p4/p4Utils", () => ({ getMaxFilesPerCommand: () => 100 }));
+
+const mockOutputChannel = {
+  appendLine: jest.fn(),
+} as unknown as vscode.OutputChannel;
+
+function openedFile(path: string, changelist = "default"): P4File {
+  return {
+    uri: vscode.Uri.file(path),
+    depotPath: `//depot${path}`,
+    clientPath: path,
+    localPath: path,
+    status: "edit",
+    action: "edit",
+    changelist,
+  };
+}
+
+function pendingChange(id: string, files: P4File[]): P4Changelist {
+  return {
+    id,
+    description: `Change ${id}`,
+    user: "testuser",
+    client: "testclient_ws",
+    status: "pending",
+    files,
+  };
+}
+
+describe("diffState", () => {
+  it("should report added, removed and changed files and changelists", () => {
+    const kept = openedFile("/ws/kept.ts");
+    const moved = openedFile("/ws/moved.ts");
+    const removed = openedFile("/ws/removed.ts");
+    const added = openedFile("/ws/added.ts");
+    const movedNow = { ...moved, changelist: "42" };
+
+    const delta = diffState(
+      new Map([kept, moved, removed].map((f) => [f.uri.toString(), f])),
+      new Map([kept, movedNow, added].map((f) => [f.uri.toString(), f])),
+      new Map([["default", pendingChange("default", [kept, moved, removed])]]),
+      new Map([
+        ["default", pendingChange("default", [kept, added])],
+        ["42", pendingChange("42", [movedNow])],
+      ]),
+    );
+
+    expect(delta.files).toEqual({
+      added: [added],
+      removed: [removed],
+      changed: [movedNow],
+    });
+    expect(delta.changelists.added.map((c) => c.id)).toEqual(["42"]);
+    expect(delta.changelists.changed.map((c) => c.id)).toEqual(["default"]);
+    expect(delta.changelists.removed).toEqual([]);
+  });
+
+  it("should find nothing between equal states", () => {
+    const file = openedFile("/ws/same.ts");
+    const files = new Map([[file.uri.toString(), file]]);
+    const changes = new Map([["default", pendingChange("default", [file])]]);
+    expect(
+      isEmptyDelta(diffState(files, new Map(files), changes, new Map(changes))),
+    ).toBe(true);
+  });
+});
+
+describe("parseFstatRecord", () => {
+  it("should read revisions, locks, other opens and move source", () => {
+    expect(
+      parseFstatRecord({
+        code: "stat",
+        depotFile: "//depot/ws/new.ts",
+        clientFile: "/ws/new.ts",
+        headRev: "4",
+        haveRev: "3",
+        headAction: "edit",
+        headType: "text",
+        action: "move/add",
+        movedFile: "//depot/ws/old.ts",
+        digest: "0CC175B9C0F1B6A831C399E269772661",
+        otherOpen0: "bob@bob-ws",
+        otherAction0: "edit",
+        otherChange0: "12",
+        otherOpen1: "carol@carol-ws",
+        otherAction1: "delete",
+        otherChange1: "default",
+        otherOpen: "2",
+        otherLock: "",
+        otherLock0: "bob@bob-ws",
+        unresolved: "",
+        reresolvable: "",
+      }),
+    ).toEqual({
+      headRevision: "#4",
+      haveRevision: "#3",
+      headAction: "edit",
+      outOfDate: true,
+      type: "text",
+      movedFile: "//depot/ws/old.ts",
+      digest: "0CC175B9C0F1B6A831C399E269772661",
+      otherLock: "bob@bob-ws",
+      diffStatus: "unresolved",
+      otherOpens: [
+        { who: "bob@bob-ws", action: "edit", changelist: "12" },
+        { who: "carol@carol-ws", action: "delete", changelist: "default" },
+      ],
+    });
+  });
+
+  it("should leave out what the record does not have", () => {
+    expect(
+      parseFstatRecord({
+        depotFile: "//depot/a.ts",
+        ourLock: "",
+        resolved: "",
+      }),
+    ).toEqual({ ourLock: true, diffStatus: "resolved" });
+  });
+});
+
+describe("describeOtherOpen", () => {
+  it("should name the workspace, action and changelist", () => {
+    expect(
+      describeOtherOpen({
+        who: "bob@bob-ws",
+        action: "edit",
+        changelist: "12",
+      }),
+    ).toBe("bob@bob-ws (edit) in CL 12");
+    expect(
+      describeOtherOpen({ who: "carol@carol-ws", changelist: "default" }),
+    ).toBe("carol@carol-ws in the default CL");
+  });
+});
+
+describe("RepositoryStateManager.refreshFiles", () => {
+  it("should update only the queried files with p4 fstat", async () => {
+    const execute = jest.fn(
+      async (
+        command: string,
+        args: string[],
+        _options: unknown,
+        _useTagged: boolean,
+        _input: unknown,
+        executeOptions: { onRecord: (record: Record<string, any>) => void },
+      ) => {
+        expect(command).toBe("fstat");
+        expect(args).toEqual(["-Ol", "/ws/a.ts", "/ws/b.ts"]);
+        executeOptions.onRecord({
+          depotFile: "//depot/ws/a.ts",
+          clientFile: "/ws/a.ts",
+          action: "edit",
+          change: "7",
+          haveRev: "3",
+          headRev: "3",
+          type: "text",
+        });
+        // b.ts is not opened, so fstat reports no action for it
+        executeOptions.onRecord({
+          depotFile: "//depot/ws/b.ts",
+          clientFile: "/ws/b.ts",
+          haveRev: "1",
+        });
+        return { stdout: "", stderr: "" };
+      },
+    );
+    const manager = new RepositoryStateManager(
+      { execute } as unknown as PerforceService,
+      mockOutputChannel,
+      { P4USER: "testuser", P4CLIENT: "testclient_ws" },
+    );
+    const b = openedFile("/ws/b.ts");
+    (manager as any).files = new Map([[b.uri.toString(), b]]);
+    (manager as any).changelists = new Map([
+      ["default", pendingChange("default", [b])],
+    ]);
+
+    await manager.refreshFiles([
+      vscode.Uri.file("/ws/a.ts"),
+      vscode.Uri.file("/ws/b.ts"),
+    ]);
+
+    expect(manager.getFileState(vscode.Uri.file("/ws/a.ts"))).toMatchObject({
+      changelist: "7",
+      status: "edit",
+      haveRevision: "#3",
+    });
+    expect(manager.getFileState(vscode.Uri.file("/ws/b.ts"))).toBeUndefined();
+    expect(manager.getChangelist("default")?.files).toEqual([]);
+
+    const fire = (manager as any)._onDidChange.fire as jest.Mock;
+    const delta: P4StateDelta = fire.mock.calls[0][0];
+    expect(delta.files.added.map((f) => f.localPath)).toEqual(["/ws/a.ts"]);
+    expect(delta.files.removed).toEqual([b]);
+    expect(delta.changelists.added.map((c) => c.id)).toEqual(["7"]);
+  });
+});
+
+describe("RepositoryStateManager.loadSnapshot", () => {
+  it("should keep the files of the saved default changelist", () => {
+    const manager = new RepositoryStateManager(
+      { execute: jest.fn() } as unknown as PerforceService,
+      mockOutputChannel,
+      { P4USER: "testuser", P4CLIENT: "testclient_ws" },
+    );
+    const a = openedFile("/ws/a.ts");
+
+    manager.loadSnapshot(
+      new Map([[a.uri.toString(), a]]),
+      new Map([["default", pendingChange("default", [a])]]),
+    );
+
+    expect(manager.stale).toBe(true);
+    expect(manager.getChangelist("default")?.files).toEqual([a]);
+  });
+});
@@ -0,0 +1,109 @@
+import * as vscode from "vscode";
+import { p4probe } from "../p4/serverProbe";
+import { P4CommandContext } from "../p4/p4Types";
+
+const mockOutputChannel = {
+  appendLine: jest.fn(),
+} as unknown as vscode.OutputChannel;
+
+// A context whose server reports the given pending changes and opened files,
+// and a latest change of 40
+function serverWith(
+  pending: Record<string, string>[],
+  opened: Record<string, string>[] = [],
+) {
+  const execute = jest.fn(async (command: string, args: string[]) => ({
+    stdout: "",
+    stderr: "",
+    parsedOutput:
+      command === "opened"
+        ? opened
+        : args.includes("pending")
+          ? pending
+          : [{ code: "stat", change: "40", desc: "Submitted work\n" }],
+  }));
+  return {
+    execute,
+    context: {
+      execute,
+      outputChannel: mockOutputChannel,
+    } as unknown as P4CommandContext,
+  };
+}
+
+describe("p4probe", () => {
+  const change = { code: "stat", change: "41", desc: "Pending work\n" };
+  const file = { depotFile: "//depot/a.ts", change: "41", action: "edit" };
+
+  it("should fingerprint the same server state the same way", async () => {
+    const first = await p4probe(serverWith([change], [file]).context, {}, "ws");
+    const second = await p4probe(
+      serverWith([{ ...change }], [{ ...file }]).context,
+      {},
+      "ws",
+    );
+    expect(second).toBe(first);
+  });
+
+  it("should notice a pending change edited or shelved", async () => {
+    const before = await p4probe(serverWith([change]).context, {}, "ws");
+    const edited = await p4probe(
+      serverWith([{ ...change, desc: "Pending work\n\nMore detail\n" }])
+        .context,
+      {},
+      "ws",
+    );
+    const shelved = await p4probe(
+      serverWith([{ ...change, shelved: "" }]).context,
+      {},
+      "ws",
+    );
+    expect(edited).not.toBe(before);
+    expect(shelved).not.toBe(before);
+  });
+
+  it("should notice a file moved to another changelist", async () => {
+    const before = await p4probe(
+      serverWith([change], [file]).context,
+      {},
+      "ws",
+    );
+    const after = await p4probe(
+      serverWith([change], [{ ...file, change: "default" }]).context,
+      {},
+      "ws",
+    );
+    expect(after).not.toBe(before);
+  });
+
+  it("should ignore error records such as files not opened", async () => {
+    const none = await p4probe(serverWith([]).context, {}, "ws");
+    const notOpened = await p4probe(
+      serverWith(
+        [],
+        [{ code: "error", data: "File(s) not opened on this client." }],
+      ).context,
+      {},
+      "ws",
+    );
+    expect(notOpened).toBe(none);
+  });
+
+  it("should run its queries in the background without prompting", async () => {
+    const { context, execute } = serverWith([change]);
+    await p4probe(context, {}, "ws");
+    expect(
+      execute.mock.calls.map(([command, args]) => [command, args]),
+    ).toEqual([
+      ["changes", ["-m", "1", "-c", "ws"]],
+      ["changes", ["-l", "-s", "pending", "-c", "ws"]],
+      ["opened", ["-C", "ws"]],
+    ]);
+    for (const call of execute.mock.calls as any[][]) {
+      expect(call[5]).toMatchObject({
+        priority: "background",
+        interactive: false,
+      });
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { parseTicketExpiry, SessionMonitor } from "../p4/sessionMonitor";
+import { P4Error } from "../p4/p4Errors";
+import { P4Result } from "../p4/p4Types";
+
+function loginStatus(stdout: string): P4Result {
+  return {
+    stdout,
+    stderr: "",
+    raw: Buffer.from(stdout),
+    exitCode: 0,
+    durationMs: 1,
+  };
+}
+
+describe("parseTicketExpiry", () => {
+  const now = new Date(Date.UTC(2025, 0, 1, 12, 0, 0));
+
+  it("should add up every unit in the expiry", () => {
+    expect(
+      parseTicketExpiry(
+        "User bob ticket expires in 11 hours 59 minutes.\n",
+        now,
+      ),
+    ).toEqual(new Date(Date.UTC(2025, 0, 1, 23, 59, 0)));
+    expect(
+      parseTicketExpiry("User bob ticket expires in 1 day 2 hours.", now),
+    ).toEqual(new Date(Date.UTC(2025, 0, 2, 14, 0, 0)));
+    expect(
+      parseTicketExpiry("User bob ticket expires in 45 seconds.", now),
+    ).toEqual(new Date(Date.UTC(2025, 0, 1, 12, 0, 45)));
+  });
+
+  it("should return undefined when the server does not use tickets", () => {
+    expect(
+      parseTicketExpiry(
+        "'login' not necessary, no password set for this user.",
+        now,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("SessionMonitor", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it("should warn once per ticket when it is about to expire", async () => {
+    const execute = jest.fn(async () =>
+      loginStatus("User bob ticket expires in 10 minutes."),
+    );
+    const onExpiring = jest.fn();
+    const monitor = new SessionMonitor(
+      execute,
+      // Two workspaces on the same server and user share one ticket
+      () => [
+        { P4PORT: "perforce:1666", P4USER: "bob", P4CLIENT: "a" },
+        { P4PORT: "perforce:1666", P4USER: "bob", P4CLIENT: "b" },
+      ],
+      onExpiring,
+    );
+
+    await monitor.check();
+    await monitor.check();
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+    monitor.dispose();
+  });
+
+  it("should not warn for long-lived or expired tickets", async () => {
+    const execute = jest
+      .fn()
+      .mockResolvedValueOnce(
+        loginStatus("User bob ticket expires in 12 hours."),
+      )
+      .mockRejectedValueOnce(
+        new P4Error("Your session has expired, please login again.", {
+          command: "login",
+          category: "authExpired",
+        }),
+      );
+    const onExpiring = jest.fn();
+    const monitor = new SessionMonitor(
+      execute,
+      () => [
+        { P4PORT: "perforce:1666", P4USER: "bob" },
+        { P4PORT: "perforce:1666", P4USER: "alice" },
+      ],
+      onExpiring,
+    );
+
+    const earliest = await monitor.check();
+
+    expect(earliest).toBeDefined();
+    expect(onExpiring).not.toHaveBeenCalled();
+    monitor.dispose();
+  });
+});
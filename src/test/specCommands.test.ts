@@ -0,0 +1,73 @@
+import * as vscode from "vscode";
+import { decodeMarshal } from "../p4/marshal";
+import { P4CommandContext } from "../p4/p4Types";
+import { p4saveSpec, p4specFields } from "../p4/specCommands";
+
+const mockOutputChannel = {
+  appendLine: jest.fn(),
+} as unknown as vscode.OutputChannel;
+
+function contextReturning(result: Record<string, any>) {
+  const execute = jest.fn(async () => ({ stdout: "", stderr: "", ...result }));
+  return {
+    execute,
+    context: {
+      execute,
+      outputChannel: mockOutputChannel,
+    } as unknown as P4CommandContext,
+  };
+}
+
+describe("spec commands", () => {
+  it("should read list fields back into arrays", async () => {
+    const { context } = contextReturning({
+      parsedOutput: [
+        {
+          code: "stat",
+          Change: "new",
+          Description: "<enter description here>\n",
+          Files0: "//depot/a.ts",
+          Files1: "//depot/b.ts",
+        },
+      ],
+    });
+    expect(await p4specFields(context, "change")).toEqual({
+      Change: "new",
+      Description: "<enter description here>\n",
+      Files: ["//depot/a.ts", "//depot/b.ts"],
+    });
+  });
+
+  it("should send flattened fields and return the confirmation", async () => {
+    const { context, execute } = contextReturning({
+      messages: [{ code: "info", severity: 0, data: "Job job000042 saved." }],
+    });
+    const output = await p4saveSpec(context, "job", {
+      Job: "new",
+      Description: "Fix it",
+      Tags: ["a", "b"],
+    });
+
+    expect(output).toContain("Job job000042 saved.");
+    const [command, args, , tagged, input] = execute.mock.calls[0] as any[];
+    expect([command, args, tagged]).toEqual(["job", ["-i"], true]);
+    expect(decodeMarshal(input)).toEqual([
+      { Job: "new", Description: "Fix it", Tags0: "a", Tags1: "b" },
+    ]);
+  });
+
+  it("should throw the server's error record", async () => {
+    const { context } = contextReturning({
+      messages: [
+        {
+          code: "error",
+          severity: 3,
+          data: "Error in change specification.\n",
+        },
+      ],
+    });
+    await expect(p4saveSpec(context, "change", {})).rejects.toThrow(
+      "Error in change specification.",
+    );
+  });
+});
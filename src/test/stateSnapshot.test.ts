@@ -0,0 +1,68 @@
+import * as vscode from "vscode";
+import { P4Changelist, P4File } from "../RepositoryStateManager";
+import {
+  deserializeState,
+  isSameIdentity,
+  serializeState,
+  snapshotKey,
+} from "../stateSnapshot";
+
+const identity = {
+  serverAddress: "perforce:1666",
+  clientName: "testclient_ws",
+  clientRoot: "/ws",
+};
+
+describe("state snapshots", () => {
+  const file: P4File = {
+    uri: vscode.Uri.file("/ws/a.ts"),
+    depotPath: "//depot/ws/a.ts",
+    clientPath: "/ws/a.ts",
+    localPath: "/ws/a.ts",
+    status: "edit",
+    action: "edit",
+    changelist: "7",
+    otherOpens: [{ who: "bob@bob-ws", action: "edit", changelist: "12" }],
+  };
+  const change: P4Changelist = {
+    id: "7",
+    description: "Fix the thing",
+    user: "testuser",
+    client: "testclient_ws",
+    status: "pending",
+    files: [file],
+    date: new Date(Date.UTC(2025, 0, 2)),
+  };
+
+  it("should survive a round trip through JSON", () => {
+    const snapshot = JSON.parse(
+      JSON.stringify(serializeState([file], [change], identity)),
+    );
+    const state = deserializeState(snapshot);
+
+    const restored = state?.files.get(file.uri.toString());
+    expect(restored).toMatchObject({ ...file, uri: expect.anything() });
+    expect(restored?.uri.toString()).toBe(file.uri.toString());
+    const restoredChange = state?.changelists.get("7");
+    expect(restoredChange?.date).toEqual(change.date);
+    // Changelists share the file objects, as RepositoryStateManager's do
+    expect(restoredChange?.files[0]).toBe(restored);
+  });
+
+  it("should ignore snapshots of another version", () => {
+    const snapshot = serializeState([file], [change], identity);
+    expect(deserializeState({ ...snapshot, version: 0 })).toBeUndefined();
+    expect(deserializeState(undefined)).toBeUndefined();
+  });
+
+  it("should tell servers and clients apart", () => {
+    const snapshot = serializeState([], [], identity);
+    expect(isSameIdentity(snapshot, { ...identity })).toBe(true);
+    expect(
+      isSameIdentity(snapshot, { ...identity, clientName: "other_ws" }),
+    ).toBe(false);
+    expect(snapshotKey({ P4PORT: "ssl:p4:1666", P4CLIENT: "ws" })).not.toBe(
+      snapshotKey({ P4PORT: "p4:1666", P4CLIENT: "ws" }),
+    );
+  });
+});